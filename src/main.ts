@@ -1,21 +1,38 @@
-import { App, Notice, Plugin, TFile } from "obsidian";
+import { Editor, getAllTags, MarkdownFileInfo, MarkdownView, normalizePath, Notice, Plugin, TFile, TFolder, WorkspaceLeaf } from "obsidian";
 import { DEFAULT_SETTINGS, LonghandSettingTab, LonghandSettings } from "./settings";
-import { collectImagesFromNote, NoteImageRef } from "./services/noteService";
-import { prepareForProcessing } from "./services/imagePrep";
-import { azureOcr } from "./services/ocrService";
-import { openAiTranscription } from "./services/openaiService";
-import { ProgressService } from "./services/progress";
+import { collectImagesFromNote, collectImagesFromText, imageKey, imagesInRange, isImageSource, NoteImageRef } from "./services/noteService";
+import { findLonghandBlocks } from "./services/longhandBlock";
+import { ProgressService, ProgressSink } from "./services/progress";
 import { convertHeicVaultFileToJpeg, rewriteNoteLinks } from "./services/heicReplace";
-import { wikilinkEntities } from "./services/wikilinkEntities";
+import { TranscriptionCache } from "./services/transcriptionCache";
+import { BatchQueue, BatchQueueStore } from "./services/batchQueue";
+import { AutoProcessWatcher } from "./services/autoProcess";
+import { FolderPickerModal, PresetPickerModal, TagPickerModal } from "./ui/batchPickers";
+import { ImagePickerModal } from "./ui/imagePicker";
+import { UsageStore } from "./services/usage";
+import { PipelineOptions, PipelineOutcome, runPipeline } from "./pipeline";
+import { RunHistoryStore, RunRecord, RunTrace } from "./services/runHistory";
+import { RUN_HISTORY_VIEW_TYPE, RunHistoryView } from "./ui/runHistoryView";
 
 export default class LonghandPlugin extends Plugin {
   settings: LonghandSettings = { ...DEFAULT_SETTINGS };
+  cache!: TranscriptionCache;
+  usage!: UsageStore;
+  history!: RunHistoryStore;
+  private batchStore!: BatchQueueStore;
+  private batchRunning = false;
+  private activeRuns = new Set<ProgressService>(); // cancellable runs in progress
 
   async onload() {
     await this.loadSettings();
+    this.cache = new TranscriptionCache(this.app, this.pluginFilePath("transcription-cache.json"));
+    this.usage = new UsageStore(this.app, this.pluginFilePath("usage.json"));
+    this.history = new RunHistoryStore(this.app, this.pluginFilePath("run-history.json"));
+    this.batchStore = new BatchQueueStore(this.app, this.pluginFilePath("batch-queue.json"));
+    new AutoProcessWatcher(this, (note, images) => this.processNewImages(note, images)).start();
 
     this.addSettingTab(
-      new LonghandSettingTab(this.app, this, this.settings, async (s: LonghandSettings) => {
+      new LonghandSettingTab(this.app, this, this.settings, this.usage, async (s: LonghandSettings) => {
         this.settings = { ...s };
         await this.saveSettings();
       })
@@ -27,11 +44,143 @@ export default class LonghandPlugin extends Plugin {
       callback: () => this.processImagesInCurrentNote(),
     });
 
+    this.addCommand({
+      id: "longhand-process-images-choose",
+      name: "Process images in current note (choose images…)",
+      callback: () => this.processImagesInCurrentNote(undefined, true),
+    });
+
+    this.addCommand({
+      id: "longhand-process-images-with-preset",
+      name: "Process images in current note with preset…",
+      callback: () =>
+        new PresetPickerModal(this.app, this.settings.promptPresets, (preset) =>
+          this.processImagesInCurrentNote(preset.id)
+        ).open(),
+    });
+
+    this.addCommand({
+      id: "longhand-transcribe-image-at-cursor",
+      name: "Transcribe this image",
+      editorCallback: (editor, ctx) => {
+        if (ctx.file) void this.transcribeSelection(ctx.file, editor, ctx);
+      },
+    });
+
+    this.addCommand({
+      id: "longhand-transcribe-images-in-selection",
+      name: "Transcribe images in selection",
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!ctx.file || !editor.somethingSelected()) return false;
+        if (!checking) void this.transcribeSelection(ctx.file, editor, ctx);
+        return true;
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("editor-menu", (menu, editor, ctx) => {
+        const file = ctx.file;
+        if (!file) return;
+        const selected = editor.somethingSelected();
+        // Cheap check so the entry only shows near an embed; the embeds are resolved on click
+        if (!selected && !editor.getLine(editor.getCursor().line).includes("![")) return;
+        menu.addItem((item) =>
+          item
+            .setTitle(selected ? "Longhand: transcribe images in selection" : "Longhand: transcribe this image")
+            .setIcon("scan-text")
+            .onClick(() => this.transcribeSelection(file, editor, ctx))
+        );
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        const note = this.app.workspace.getActiveFile();
+        if (!(file instanceof TFile) || !isImageSource(file) || !note || note.extension !== "md") return;
+        menu.addItem((item) =>
+          item
+            .setTitle("Longhand: transcribe this image")
+            .setIcon("scan-text")
+            .onClick(() => this.transcribeEmbedsOf(note, file))
+        );
+      })
+    );
+
+    this.addCommand({
+      id: "longhand-process-images-in-folder",
+      name: "Process images in folder…",
+      callback: () => new FolderPickerModal(this.app, (folder) => this.startFolderBatch(folder)).open(),
+    });
+
+    this.addCommand({
+      id: "longhand-process-images-with-tag",
+      name: "Process images in notes with tag…",
+      callback: () => new TagPickerModal(this.app, (tag) => this.startTagBatch(tag)).open(),
+    });
+
+    this.addCommand({
+      id: "longhand-resume-batch",
+      name: "Resume interrupted batch",
+      callback: () => this.resumeBatch(),
+    });
+
+    this.addCommand({
+      id: "longhand-cancel-runs",
+      name: "Cancel running transcriptions",
+      callback: () => {
+        if (!this.activeRuns.size) {
+          new Notice("Longhand: nothing is running.");
+          return;
+        }
+        for (const run of this.activeRuns) run.cancel();
+      },
+    });
+
+    this.registerView(
+      RUN_HISTORY_VIEW_TYPE,
+      (leaf: WorkspaceLeaf) =>
+        new RunHistoryView(leaf, this.history, {
+          openNote: (run) => this.openRunNote(run),
+          rerun: (run) => this.rerunFromHistory(run),
+        })
+    );
+
+    this.addCommand({
+      id: "longhand-open-run-history",
+      name: "Open run history",
+      callback: () => this.openRunHistory(),
+    });
+
+    this.addCommand({
+      id: "longhand-clear-cache-current-note",
+      name: "Clear transcription cache for current note",
+      callback: () => this.clearCacheForCurrentNote(),
+    });
+
+    this.addCommand({
+      id: "longhand-clear-cache-all",
+      name: "Clear entire transcription cache",
+      callback: async () => {
+        this.cache.clearAll();
+        await this.cache.save();
+        new Notice("Longhand: transcription cache cleared.");
+      },
+    });
+
     this.addCommand({
       id: "longhand-convert-heic-to-jpeg",
       name: "Convert HEIC to JPEG in current note",
       callback: () => this.convertHeicToJpegInCurrentNote(),
     });
+
+    this.app.workspace.onLayoutReady(async () => {
+      const queue = await this.batchStore.load();
+      if (queue) {
+        new Notice(
+          `Longhand: batch "${queue.label}" was interrupted with ${queue.pending.length} note(s) left. Run "Resume interrupted batch" to continue.`
+        );
+      }
+    });
   }
 
   async loadSettings() {
@@ -43,13 +192,49 @@ export default class LonghandPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
-  private async convertHeicToJpegInCurrentNote() {
+  /**
+   * Vault-relative path of a file in this plugin's folder (next to data.json).
+   */
+  pluginFilePath(name: string): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${dir}/${name}`);
+  }
+
+  /**
+   * Progress display for a run. Cancellable runs offer a Cancel action and are reachable
+   * from the "Cancel running transcriptions" command until finishRun().
+   */
+  createProgress(cancellable = false): ProgressService {
     const progress = new ProgressService(this.app, this, {
       statusBar: this.settings.showStatusBarProgress,
       startFinishNotices: this.settings.showStartFinishNotices,
       floatingToast: this.settings.showFloatingToastProgress,
       overlayPosition: this.settings.overlayProgressPosition,
+      cancellable,
     });
+    if (cancellable) this.activeRuns.add(progress);
+    return progress;
+  }
+
+  private finishRun(progress: ProgressService) {
+    this.activeRuns.delete(progress);
+    progress.dispose();
+  }
+
+  private async clearCacheForCurrentNote() {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) {
+      new Notice("No active note.");
+      return;
+    }
+    await this.cache.load();
+    const count = this.cache.clearNote(file.path);
+    await this.cache.save();
+    new Notice(`Longhand: cleared cached results for ${count} image(s) in ${file.basename}.`);
+  }
+
+  private async convertHeicToJpegInCurrentNote() {
+    const progress = this.createProgress();
 
     progress.start("Longhand: scanning images…");
 
@@ -94,13 +279,8 @@ export default class LonghandPlugin extends Plugin {
     progress.done("Longhand: image processing complete.");
   }
 
-  private async processImagesInCurrentNote() {
-    const progress = new ProgressService(this.app, this, {
-      statusBar: this.settings.showStatusBarProgress,
-      startFinishNotices: this.settings.showStartFinishNotices,
-      floatingToast: this.settings.showFloatingToastProgress,
-      overlayPosition: this.settings.overlayProgressPosition,
-    });
+  private async processImagesInCurrentNote(preset?: string, pick = this.settings.pickImagesBeforeRun) {
+    const progress = this.createProgress(true);
 
     try {
       progress.start("Longhand: scanning images…");
@@ -111,167 +291,406 @@ export default class LonghandPlugin extends Plugin {
         return;
       }
 
-      if (!this.settings.openaiApiKey) {
-        progress.fail("OpenAI API key not set in settings.");
-        return;
-      }
-      if (!this.settings.azureEndpoint || !this.settings.azureApiKey) {
-        progress.fail("Azure OCR endpoint/key not set in settings.");
-        return;
-      }
+      // Capture the cursor now; the user may move it while the run is in progress
+      const cursorOffset = this.cursorOffsetIn(file);
 
-      let images: NoteImageRef[] = [];
-      try {
-        images = await collectImagesFromNote(this.app, file, this.settings.imageLimit);
-      } catch (e: any) {
-        console.error(e);
-        progress.fail("Failed to parse images from note.");
-        return;
+      let imageOrder: string[] | undefined;
+      if (pick) {
+        const picked = await this.pickImages(file);
+        if (!picked) {
+          progress.done("Longhand: cancelled; note not changed.");
+          return;
+        }
+        if (!picked.length) {
+          progress.fail("No images found in current note.");
+          return;
+        }
+        imageOrder = picked.map(imageKey);
       }
 
-      if (images.length === 0) {
-        progress.fail("No images found in current note.");
-        return;
+      const outcome = await this.runAndRecord(file, progress, progress, {
+        cursorOffset,
+        imageOrder,
+        review: this.settings.reviewBeforeInsert,
+        signal: progress.signal,
+        preset,
+      });
+      if (outcome.ok) {
+        progress.done(outcome.message);
+      } else {
+        progress.fail(outcome.message);
       }
+    } finally {
+      // ensure cleanup if not already disposed
+      this.finishRun(progress);
+    }
+  }
 
-      if (images.length > this.settings.imageLimit) {
-        images = images.slice(0, this.settings.imageLimit);
-        progress.set(`Processing first ${this.settings.imageLimit} images (limit).`);
-      }
+  /**
+   * Let the user choose and order the note's images; null when the picker was closed.
+   * Each image is listed once, even when it is embedded several times.
+   */
+  private async pickImages(file: TFile): Promise<NoteImageRef[] | null> {
+    const seen = new Set<string>();
+    const refs = (await collectImagesFromNote(this.app, file, Infinity)).filter((r) => {
+      const key = imageKey(r);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (!refs.length) return [];
+    return new ImagePickerModal(this.app, refs, this.settings.imageLimit).openAndWait();
+  }
 
-      // Convert HEIC files and rewrite embeds if setting enabled
-      if (this.settings.replaceHeicEmbedsInNote) {
-        const replacements = new Map<string, string>();
-        for (const r of images) {
-          if (/\.hei[cf]$/i.test(r.file.name)) {
-            try {
-              const jpg = await convertHeicVaultFileToJpeg(this.app, r.file);
-              replacements.set(r.file.path, jpg.path);
-            } catch (e) {
-              console.warn(`HEIC->JPEG conversion failed for ${r.file.path}`, e);
-            }
-          }
-        }
-        if (replacements.size) {
-          try {
-            progress.set("Rewriting HEIC embeds to JPEG…");
-            await rewriteNoteLinks(this.app, file, replacements);
-            // Refresh image list to reflect new JPEG links
-            images = await collectImagesFromNote(this.app, file, this.settings.imageLimit);
-            if (images.length > this.settings.imageLimit) {
-              images = images.slice(0, this.settings.imageLimit);
-              progress.set(`Processing first ${this.settings.imageLimit} images (limit).`);
-            }
-          } catch (e) {
-            console.warn("Failed to rewrite note links for HEIC->JPEG.", e);
-          }
-        }
+  /**
+   * Auto-process entry point: transcribe just the given newly embedded images, adding to
+   * (never replacing) an existing Longhand block.
+   */
+  private async processNewImages(file: TFile, images: Set<string>) {
+    const progress = this.createProgress(true);
+    try {
+      progress.start(`Longhand: transcribing ${images.size} new image(s) in ${file.basename}…`);
+      const outcome = await this.runAndRecord(file, progress, progress, {
+        onlyPaths: images,
+        rerunMode: "new-only",
+        signal: progress.signal,
+      });
+      if (outcome.ok) {
+        progress.done(outcome.message);
+      } else {
+        progress.fail(outcome.message);
       }
+    } finally {
+      this.finishRun(progress);
+    }
+  }
 
-      progress.set(`Preparing ${images.length} image(s)…`);
+  /**
+   * Transcribe the embeds under the cursor or inside the selection; the block goes right
+   * after the selection (or the embed the cursor is in).
+   */
+  private async transcribeSelection(file: TFile, editor: Editor, ctx: MarkdownView | MarkdownFileInfo) {
+    const from = editor.posToOffset(editor.getCursor("from"));
+    const to = editor.posToOffset(editor.getCursor("to"));
+    // Editor offsets match embed positions in the editor's text, not the (possibly older) cached ones
+    const refs = imagesInRange(collectImagesFromText(this.app, file, editor.getValue()), from, to);
+    if (!refs.length) {
+      new Notice(from === to ? "Longhand: no image under the cursor." : "Longhand: no images in the selection.");
+      return;
+    }
+    // The run finds the images in the metadata cache and writes into the saved note
+    await this.flushEditor(file, editor, ctx);
+    await this.transcribeRefs(file, refs, Math.max(to, ...refs.map((r) => r.position?.end ?? to)));
+  }
 
-      // Pre-process + OCR
-      const perImageResults: {
-        ref: NoteImageRef;
-        fileName: string;
-        llmDataUrl?: string; // downscaled (optional)
-        ocrText: string;
-      }[] = [];
+  /**
+   * Save unsaved edits and wait (a few seconds at most) for the metadata cache to index them.
+   */
+  private async flushEditor(file: TFile, editor: Editor, ctx: MarkdownView | MarkdownFileInfo) {
+    if (!(ctx instanceof MarkdownView) || editor.getValue() === (await this.app.vault.read(file))) return;
+    const { metadataCache } = this.app;
+    const indexed = new Promise<void>((resolve) => {
+      const done = () => {
+        metadataCache.offref(ref);
+        resolve();
+      };
+      const ref = metadataCache.on("changed", (changed) => {
+        if (changed.path === file.path) done();
+      });
+      window.setTimeout(done, 3000);
+    });
+    await ctx.save();
+    await indexed;
+  }
 
-      for (let i = 0; i < images.length; i++) {
-        const ref = images[i];
-        try {
-          progress.setProgress(i, images.length, `Preparing image ${i + 1}/${images.length}: ${ref.file.name}`);
-          const prep = await prepareForProcessing(
-            this.app,
-            ref.file,
-            this.settings.convertHeicToJpeg,
-            this.settings.downscaleForLLM
-          );
-
-          let ocrText = "";
-          try {
-            ocrText = await azureOcr(prep.ocrBytes, this.settings.azureEndpoint, this.settings.azureApiKey);
-            progress.set(`OCR ${i + 1}/${images.length} complete`);
-          } catch (ocrErr) {
-            console.warn(`Azure OCR failed for ${ref.file.name}:`, ocrErr);
-            ocrText = "";
-            progress.set(`OCR ${i + 1}/${images.length} failed; continuing`);
-          }
+  /**
+   * File menu entry point: transcribe one image (or PDF) embedded in the active note,
+   * inserting right after its last embed.
+   */
+  private async transcribeEmbedsOf(note: TFile, image: TFile) {
+    const refs = (await collectImagesFromNote(this.app, note, Infinity)).filter((r) => r.file.path === image.path);
+    const ends = refs.map((r) => r.position?.end).filter((end): end is number => end !== undefined);
+    if (!ends.length) {
+      new Notice(`Longhand: ${image.name} is not embedded in ${note.basename}.`);
+      return;
+    }
+    await this.transcribeRefs(note, refs, Math.max(...ends));
+  }
 
-          perImageResults.push({
-            ref,
-            fileName: ref.file.name,
-            llmDataUrl: prep.llmDataUrl,
-            ocrText,
-          });
-        } catch (e: any) {
-          console.error(`Failed to prepare image ${ref.file.name}`, e);
-        }
+  /**
+   * Run the pipeline on just these embeds, writing a separate block at insertAt. The picked
+   * images are always transcribed, whatever the re-run setting.
+   */
+  private async transcribeRefs(file: TFile, refs: NoteImageRef[], insertAt: number) {
+    const progress = this.createProgress(true);
+    try {
+      progress.start(`Longhand: transcribing ${refs.length} image(s) in ${file.basename}…`);
+      const outcome = await this.runAndRecord(file, progress, progress, {
+        // Keys, not paths, so one page of a PDF or one of several embeds of a file stays alone
+        imageOrder: Array.from(new Set(refs.map(imageKey))),
+        rerunMode: "replace",
+        insertAt,
+        review: this.settings.reviewBeforeInsert,
+        signal: progress.signal,
+      });
+      if (outcome.ok) {
+        progress.done(outcome.message);
+      } else {
+        progress.fail(outcome.message);
       }
+    } finally {
+      this.finishRun(progress);
+    }
+  }
 
-      // Ensure we have at least one image prepared for LLM
-      const anyLlmImages = perImageResults.some((r) => !!r.llmDataUrl);
-      if (!anyLlmImages) {
-        progress.fail("Failed to prepare images for model input.");
-        return;
+  /**
+   * runPipeline, recording the run (outcome, images, per-image status and the progress log
+   * written meanwhile) in the run history.
+   */
+  private async runAndRecord(
+    file: TFile,
+    progress: ProgressService,
+    sink: ProgressSink,
+    options: PipelineOptions
+  ): Promise<PipelineOutcome> {
+    const started = Date.now();
+    const logStart = progress.log.length;
+    const trace: RunTrace = { images: [], reports: [] };
+    let outcome: PipelineOutcome = { ok: false, message: "Longhand: run stopped unexpectedly." };
+    try {
+      outcome = await runPipeline(this, file, sink, { ...options, trace });
+      return outcome;
+    } finally {
+      if (this.settings.runHistoryLimit > 0) {
+        const run: RunRecord = {
+          id: `${started}-${Math.random().toString(36).slice(2, 8)}`,
+          note: file.path,
+          started,
+          duration: Date.now() - started,
+          status: outcome.cancelled ? "cancelled" : outcome.ok ? "ok" : "failed",
+          message: outcome.message,
+          model: trace.model ?? "",
+          ocr: trace.ocr ?? "",
+          images: trace.images,
+          options: {
+            cursorOffset: options.cursorOffset,
+            onlyPaths: options.onlyPaths && Array.from(options.onlyPaths),
+            imageOrder: options.imageOrder,
+            rerunMode: options.rerunMode,
+            review: options.review,
+            preset: options.preset,
+            insertAt: options.insertAt,
+          },
+          reports: trace.reports,
+          cost: trace.cost,
+          log: progress.log.slice(logStart).map(({ time, kind, message }) => ({ time, kind, message })),
+        };
+        await this.history
+          .add(run, this.settings.runHistoryLimit)
+          .catch((e) => console.warn("Failed to record Longhand run history", e));
       }
+    }
+  }
 
-      const usableCount = perImageResults.filter((r) => !!r.llmDataUrl).length;
-      progress.set(`Calling OpenAI with ${usableCount} image(s)…`);
+  private async openRunHistory() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(RUN_HISTORY_VIEW_TYPE)[0];
+    if (!leaf) {
+      const right = workspace.getRightLeaf(false);
+      if (!right) return;
+      leaf = right;
+      await leaf.setViewState({ type: RUN_HISTORY_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
 
-      // Single OpenAI call with all images + OCR bundle
-      let modelOutput = "";
-      try {
-        modelOutput = await openAiTranscription(
-          this.settings.openaiApiKey,
-          perImageResults.map((r) => ({
-            fileName: r.fileName,
-            alt: r.ref.alt || "",
-            ocrText: r.ocrText,
-            dataUrl: r.llmDataUrl, // can be undefined for some; service will filter
-          })),
-          this.settings.personalContext
-        );
-      } catch (e: any) {
-        console.error(e);
-        progress.fail("OpenAI request failed.");
-        return;
-      }
+  private openRunNote(run: RunRecord) {
+    const file = this.app.vault.getAbstractFileByPath(run.note);
+    if (!(file instanceof TFile)) {
+      new Notice(`Longhand: ${run.note} no longer exists.`);
+      return;
+    }
+    void this.app.workspace.getLeaf(false).openFile(file);
+  }
 
-      progress.set("OpenAI response received.");
+  /**
+   * Editor offset of the cursor for the "cursor" placement, when the note is open in the active editor.
+   */
+  private cursorOffsetIn(file: TFile): number | undefined {
+    if (this.settings.placement !== "cursor") return undefined;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    return view?.file?.path === file.path ? view.editor.posToOffset(view.editor.getCursor()) : undefined;
+  }
 
-      if (!modelOutput || modelOutput.trim().length === 0) {
-        progress.fail("Model returned empty result.");
-        return;
+  /**
+   * Run a recorded note again on the same images, in the same order, with the same options
+   * (re-run mode, preset, review). Recorded offsets may no longer fit the note: a targeted
+   * block goes after the same embeds as they are now, and the cursor is read again.
+   */
+  private async rerunFromHistory(run: RunRecord) {
+    const file = this.app.vault.getAbstractFileByPath(run.note);
+    if (!(file instanceof TFile)) {
+      new Notice(`Longhand: ${run.note} no longer exists.`);
+      return;
+    }
+    const progress = this.createProgress(true);
+    try {
+      progress.start(`Longhand: re-running ${file.basename}…`);
+      const recorded = run.options;
+      let insertAt: number | undefined;
+      if (recorded?.insertAt !== undefined) {
+        // Without the embeds the run falls back to the configured placement
+        const keys = new Set(run.images);
+        const refs = (await collectImagesFromNote(this.app, file, Infinity)).filter((r) => keys.has(imageKey(r)));
+        const ends = refs.map((r) => r.position?.end).filter((end): end is number => end !== undefined);
+        insertAt = ends.length ? Math.max(...ends) : undefined;
       }
+      const options: PipelineOptions = {
+        ...recorded,
+        onlyPaths: recorded?.onlyPaths && new Set(recorded.onlyPaths),
+        imageOrder: recorded?.imageOrder ?? (run.images.length ? run.images : undefined),
+        cursorOffset: this.cursorOffsetIn(file),
+        insertAt,
+        review: recorded ? recorded.review : this.settings.reviewBeforeInsert,
+      };
+      const outcome = await this.runAndRecord(file, progress, progress, { ...options, signal: progress.signal });
+      if (outcome.ok) {
+        progress.done(outcome.message);
+      } else {
+        progress.fail(outcome.message);
+      }
+    } finally {
+      this.finishRun(progress);
+    }
+  }
 
-      if (this.settings.autoLinkEntities) {
-        try {
-          progress.set("Auto-linking entities…");
-          modelOutput = await wikilinkEntities(this.app, file, modelOutput);
-        } catch (e) {
-          console.warn("Auto-link entities failed", e);
+  private startFolderBatch(folder: TFolder) {
+    const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+    const notes = this.app.vault.getMarkdownFiles().filter((f) => f.path.startsWith(prefix));
+    void this.startBatch(`folder ${folder.isRoot() ? "/" : folder.path}`, notes);
+  }
+
+  private startTagBatch(tag: string) {
+    // "#longhand/inbox" also matches nested tags such as "#longhand/inbox/work"
+    const wanted = tag.toLowerCase();
+    const notes = this.app.vault.getMarkdownFiles().filter((f) => {
+      const cache = this.app.metadataCache.getFileCache(f);
+      const tags = cache ? getAllTags(cache) ?? [] : [];
+      return tags.some((t) => {
+        const lower = t.toLowerCase();
+        return lower === wanted || lower.startsWith(`${wanted}/`);
+      });
+    });
+    void this.startBatch(`tag ${tag}`, notes);
+  }
+
+  private async startBatch(label: string, notes: TFile[]) {
+    if (this.batchRunning) {
+      new Notice("Longhand: a batch is already running.");
+      return;
+    }
+
+    const pending: string[] = [];
+    for (const f of notes.sort((a, b) => a.path.localeCompare(b.path))) {
+      if ((await collectImagesFromNote(this.app, f, 1)).length) pending.push(f.path);
+    }
+    if (!pending.length) {
+      new Notice(`Longhand: no notes with images in ${label}.`);
+      return;
+    }
+
+    const queue: BatchQueue = {
+      label,
+      pending,
+      total: pending.length,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      startedAt: Date.now(),
+    };
+    await this.batchStore.save(queue);
+    await this.runBatch(queue);
+  }
+
+  private async resumeBatch() {
+    if (this.batchRunning) {
+      new Notice("Longhand: a batch is already running.");
+      return;
+    }
+    const queue = await this.batchStore.load();
+    if (!queue) {
+      new Notice("Longhand: no interrupted batch to resume.");
+      return;
+    }
+    await this.runBatch(queue);
+  }
+
+  /**
+   * Process queued notes one by one through the normal pipeline. Notes that already contain
+   * a Longhand block are skipped. The queue is saved after every note so the batch can be
+   * resumed after a restart; cancelling keeps the current note queued for the same reason.
+   */
+  private async runBatch(queue: BatchQueue) {
+    this.batchRunning = true;
+    const progress = this.createProgress(true);
+    try {
+      progress.start(`Longhand: processing ${queue.pending.length} note(s) in ${queue.label}…`);
+
+      while (queue.pending.length) {
+        if (progress.cancelled) break;
+        const path = queue.pending[0];
+        const index = queue.total - queue.pending.length;
+        const file = this.app.vault.getAbstractFileByPath(path);
+
+        if (!(file instanceof TFile)) {
+          queue.skipped++;
+        } else if (findLonghandBlocks(await this.app.vault.cachedRead(file)).length) {
+          queue.skipped++;
+          progress.setProgress(index, queue.total, `[${index + 1}/${queue.total}] ${file.basename}: already transcribed`);
+        } else {
+          const prefix = `[${index + 1}/${queue.total}] ${file.basename}: `;
+          const sink: ProgressSink = {
+            set: (msg) => progress.setProgress(index, queue.total, prefix + msg),
+            setProgress: (_current, _total, msg) => progress.setProgress(index, queue.total, prefix + msg),
+          };
+          const outcome = await this.runAndRecord(file, progress, sink, { signal: progress.signal });
+          if (outcome.cancelled) break;
+          if (outcome.fatal) {
+            // Every remaining note would fail the same way: stop with the queue intact
+            progress.fail(
+              `Longhand: batch stopped at ${file.basename}: ${outcome.message} Fix this, then run "Resume interrupted batch".`
+            );
+            return;
+          }
+          if (outcome.ok) {
+            queue.processed++;
+          } else {
+            queue.failed++;
+            console.warn(`Longhand batch: ${path}: ${outcome.message}`);
+          }
         }
-      }
 
-      progress.set("Writing transcription to note…");
+        queue.pending.shift();
+        await this.batchStore.save(queue);
+      }
 
-      // Prepend to note with heading + timestamp
-      try {
-        const original = await this.app.vault.read(file);
-        const timestamp = new Date().toISOString().replace("T", " ").substring(0, 19);
-        const heading = `## Longhand transcription (${timestamp})`;
-        const newContent = `${heading}\n\n${modelOutput.trim()}\n\n---\n\n${original}`;
-        await this.app.vault.modify(file, newContent);
-        progress.done(`Longhand: inserted transcription for ${perImageResults.length} image(s).`);
-      } catch (e: any) {
-        console.error(e);
-        progress.fail("Failed to insert transcription into note.");
+      if (progress.cancelled) {
+        progress.fail(
+          `Longhand: batch cancelled with ${queue.pending.length} note(s) left. Run "Resume interrupted batch" to continue.`
+        );
+        return;
       }
+
+      await this.batchStore.clear();
+      progress.done(
+        `Longhand: batch finished: ${queue.processed} transcribed, ${queue.skipped} skipped, ${queue.failed} failed.`
+      );
+    } catch (e) {
+      console.error(e);
+      progress.fail('Longhand: batch stopped unexpectedly. Run "Resume interrupted batch" to continue.');
     } finally {
-      // ensure cleanup if not already disposed
-      progress.dispose();
+      this.batchRunning = false;
+      this.finishRun(progress);
     }
   }
 }
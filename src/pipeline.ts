@@ -0,0 +1,579 @@
+import { TFile } from "obsidian";
+import type LonghandPlugin from "./main";
+import type { LonghandSettings } from "./settings";
+import { collectImagesFromNote, imageKey, NoteImageRef } from "./services/noteService";
+import { ImageReport, ImageStatus, reportCallout, reportSummary } from "./services/runReport";
+import type { RunTrace } from "./services/runHistory";
+import { hashVaultFile, prepareForProcessing } from "./services/imagePrep";
+import {
+  coveredSources,
+  findLonghandBlocks,
+  LonghandSource,
+  Placement,
+  RerunMode,
+  upsertLonghandBlock,
+  upsertPerImageBlocks,
+  upsertTargetedBlock,
+} from "./services/longhandBlock";
+import { createOcrProvider, OcrProvider, OcrResult } from "./services/ocrService";
+import { joinBatchTexts, LlmInputItem, openAiTranscription, TranscriptionResult } from "./services/openaiService";
+import { createLlmProvider } from "./services/llmProviders";
+import { isConfigurationError, RequestError } from "./services/httpClient";
+import { resolveNoteLanguages } from "./services/language";
+import { resolvePreset } from "./services/promptTemplates";
+import { writeRunMetadata } from "./services/runMetadata";
+import { cleanupCacheKey } from "./services/imageCleanup";
+import { pageCacheKey } from "./services/pageDetect";
+import { BudgetExceededError, BudgetGuard, estimateCost, RunUsage } from "./services/usage";
+import type { ProgressSink } from "./services/progress";
+import { convertHeicVaultFileToJpeg, rewriteNoteLinks } from "./services/heicReplace";
+import { wikilinkEntities } from "./services/wikilinkEntities";
+import { ReviewModal, ReviewSegment } from "./ui/reviewModal";
+
+export interface PipelineOptions {
+  cursorOffset?: number; // editor offset for the "cursor" placement, captured when the command ran
+  onlyPaths?: Set<string>; // restrict the run to these embedded image paths
+  imageOrder?: string[]; // image keys picked in the image picker, in processing order
+  rerunMode?: RerunMode; // overrides settings.rerunMode (e.g. auto-processing only adds)
+  review?: boolean; // show the review modal before writing (interactive runs only)
+  signal?: AbortSignal; // cancels the run; the note is left unchanged
+  preset?: string; // prompt preset id/name, overriding the note's frontmatter and the setting
+  insertAt?: number; // note offset for a separate block (images picked by cursor or selection)
+  trace?: RunTrace; // filled in with the images, per-image status, model and cost, for the run history
+}
+
+/**
+ * Result of one note's run; message is suitable for a finish/failure notice.
+ */
+export interface PipelineOutcome {
+  ok: boolean;
+  cancelled?: boolean;
+  fatal?: boolean; // would fail every note the same way (settings, credentials, budget); batches stop
+  message: string;
+}
+
+/**
+ * Full Longhand flow for one note: collect images -> HEIC handling -> prepare + OCR ->
+ * LLM transcription -> write into the note. Reports steps through progress but never
+ * finishes it, so callers can run several notes under one progress display.
+ * When options.signal is aborted the run stops at the next step (in-flight requests are
+ * aborted), nothing is written, and OCR/model results obtained so far stay cached.
+ * Usage is recorded for every run that made requests, whether it succeeded or not; the
+ * monthly budget is checked before each billable request.
+ */
+export async function runPipeline(
+  plugin: LonghandPlugin,
+  file: TFile,
+  progress: ProgressSink,
+  options: PipelineOptions = {}
+): Promise<PipelineOutcome> {
+  const { app, settings } = plugin;
+  const { signal } = options;
+  const cancelled = (detail: string): PipelineOutcome => ({
+    ok: false,
+    cancelled: true,
+    message: `Longhand: cancelled ${detail}; note not changed.`,
+  });
+
+  let ocr: OcrProvider | undefined;
+  let persistCache: (() => Promise<void>) | undefined;
+  const usage: RunUsage = {
+    note: file.path,
+    model: "",
+    ocr: "",
+    inputTokens: 0,
+    outputTokens: 0,
+    modelCalls: 0,
+    images: 0,
+    ocrCalls: 0,
+  };
+  const runCost = () => estimateCost(settings, usage.model, usage);
+  try {
+    const llm = createLlmProvider(settings);
+    const llmConfigError = llm.configError();
+    if (llmConfigError) {
+      return { ok: false, fatal: true, message: llmConfigError };
+    }
+    usage.model = llm.model;
+    const languages = resolveNoteLanguages(app, file, settings);
+    const preset = resolvePreset(app, file, settings, options.preset);
+    ocr = createOcrProvider(app, settings, languages);
+    const ocrConfigError = ocr.configError();
+    if (ocrConfigError) {
+      return { ok: false, fatal: true, message: ocrConfigError };
+    }
+    usage.ocr = ocr.cacheKey;
+    const billableOcr = ocr.id !== "tesseract";
+    // Stripped (EXIF-rotated photos redrawn upright), cropped and cleaned images read
+    // differently, so their OCR results are cached separately
+    const ocrCacheKey =
+      ocr.cacheKey + (settings.stripImageMetadata ? ":stripped" : "") + pageCacheKey(settings) + cleanupCacheKey(settings);
+    const budget = new BudgetGuard(settings, llm.model, await plugin.usage.spentThisMonth());
+
+    const rerunMode = options.rerunMode ?? settings.rerunMode;
+    const onlyPaths = options.onlyPaths ? new Set(options.onlyPaths) : undefined;
+    let imageOrder = options.imageOrder;
+    // Set when imageOrder leaves out some of the note's images (picked in the image picker)
+    let partial = false;
+    // With an explicit subset the limit applies to the subset, not to the note's first images
+    const collect = async () => {
+      const explicit = onlyPaths || imageOrder;
+      const all = await collectImagesFromNote(app, file, explicit ? Number.POSITIVE_INFINITY : settings.imageLimit);
+      const subset = onlyPaths ? all.filter((r) => onlyPaths.has(r.file.path)) : all;
+      if (!imageOrder) return subset;
+      const picked = pickInOrder(subset, imageOrder);
+      partial = picked.length < new Set(subset.map(imageKey)).size;
+      return picked;
+    };
+
+    let images: NoteImageRef[] = [];
+    try {
+      images = await collect();
+    } catch (e: any) {
+      console.error(e);
+      return { ok: false, message: "Failed to parse images from note." };
+    }
+
+    if (images.length === 0) {
+      return { ok: false, message: "No images found in current note." };
+    }
+
+    // Images past the limit, reported as excluded
+    let overLimit: NoteImageRef[] = [];
+    if (images.length > settings.imageLimit) {
+      overLimit = images.slice(settings.imageLimit);
+      images = images.slice(0, settings.imageLimit);
+      progress.set(`Processing first ${settings.imageLimit} images (limit).`);
+    }
+
+    // Per-image outcome, for the finish notice and the optional callout
+    const reports: ImageReport[] = options.trace?.reports ?? [];
+    const report = (ref: NoteImageRef, name: string, status: ImageStatus, reason?: string) =>
+      reports.push({ path: ref.file.path, name, status, reason });
+    const heicWarnings = new Map<string, string>();
+
+    // Convert HEIC files and rewrite embeds if setting enabled
+    if (settings.replaceHeicEmbedsInNote) {
+      const replacements = new Map<string, string>();
+      for (const r of images) {
+        if (signal?.aborted) return cancelled("while converting HEIC images");
+        if (/\.hei[cf]$/i.test(r.file.name)) {
+          try {
+            const jpg = await convertHeicVaultFileToJpeg(app, r.file);
+            replacements.set(r.file.path, jpg.path);
+          } catch (e) {
+            console.warn(`HEIC->JPEG conversion failed for ${r.file.path}`, e);
+            heicWarnings.set(r.file.path, `embed kept as HEIC, conversion failed: ${errorMessage(e)}`);
+          }
+        }
+      }
+      if (replacements.size) {
+        try {
+          progress.set("Rewriting HEIC embeds to JPEG…");
+          await rewriteNoteLinks(app, file, replacements);
+          imageOrder = imageOrder?.map((key) => replacements.get(key) ?? key);
+          if (onlyPaths) {
+            for (const [from, to] of replacements) if (onlyPaths.has(from)) onlyPaths.add(to);
+          }
+          // Refresh image list to reflect new JPEG links
+          images = await collect();
+          if (images.length > settings.imageLimit) {
+            overLimit = images.slice(settings.imageLimit);
+            images = images.slice(0, settings.imageLimit);
+            progress.set(`Processing first ${settings.imageLimit} images (limit).`);
+          }
+        } catch (e) {
+          console.warn("Failed to rewrite note links for HEIC->JPEG.", e);
+        }
+      }
+    }
+
+    // Skip images already transcribed (same path + content hash) into an existing block
+    if (rerunMode === "new-only") {
+      const covered = coveredSources(findLonghandBlocks(await app.vault.read(file)));
+      if (covered.size) {
+        const fresh: NoteImageRef[] = [];
+        for (const r of images) {
+          try {
+            if (covered.get(imageKey(r)) === (await hashVaultFile(app, r.file))) continue;
+          } catch (e) {
+            console.warn(`Failed to hash ${r.file.path}`, e);
+          }
+          fresh.push(r);
+        }
+        if (fresh.length === 0) {
+          return { ok: true, message: "Longhand: no new images to transcribe." };
+        }
+        images = fresh;
+      }
+    }
+
+    for (const r of overLimit) report(r, r.file.name, "excluded", "over the image limit");
+    if (options.trace) options.trace.images = images.map(imageKey);
+    progress.set(`Preparing ${images.length} image(s)…`);
+
+    const cache = settings.useTranscriptionCache ? plugin.cache : undefined;
+    await cache?.load();
+
+    // Pre-process + OCR
+    const perImageResults: {
+      ref: NoteImageRef;
+      fileName: string;
+      hash: string;
+      part?: string; // which page of the file, when it has several (spread halves, PDF pages)
+      llmDataUrl?: string; // downscaled (optional)
+      llmWidth?: number;
+      llmHeight?: number;
+      ocrText: string;
+      ocr?: OcrResult; // layout and word confidence, when OCR succeeded
+    }[] = [];
+
+    // Persist whatever OCR/model results were obtained, even if the run fails or is cancelled
+    if (cache) {
+      persistCache = async () => {
+        cache.recordNote(file.path, perImageResults.map((r) => r.hash));
+        await cache.save().catch((e) => console.warn("Failed to save transcription cache", e));
+      };
+    }
+
+    const onRetry = (message: string) => progress.set(message);
+    for (let i = 0; i < images.length; i++) {
+      if (signal?.aborted) return cancelled(`after preparing ${i}/${images.length} image(s)`);
+      const ref = images[i];
+      // PDF and TIFF pages count against the limit too, so several PDFs can't each send imageLimit pages
+      const pagesLeft = settings.imageLimit - perImageResults.length;
+      if (pagesLeft <= 0) {
+        for (const r of images.slice(i)) report(r, r.file.name, "excluded", "over the image limit");
+        progress.set(`Image limit reached; skipping ${images.length - i} image(s).`);
+        break;
+      }
+      try {
+        progress.setProgress(i, images.length, `Preparing image ${i + 1}/${images.length}: ${ref.file.name}`);
+        const prep = await prepareForProcessing(app, ref.file, settings, ref.pdfPage, pagesLeft);
+        for (let p = 0; p < prep.pages.length; p++) {
+          const page = prep.pages[p];
+          const pageName = page.label ? `${ref.file.name} (${page.label})` : ref.file.name;
+          if (page.cleanupSteps?.length) progress.set(`Cleaned up ${pageName}: ${page.cleanupSteps.join(", ")}`);
+          // Each half of a spread or PDF page has its own OCR result under the file's hash
+          const pageKey = page.label ? `${ocrCacheKey}:${page.label}` : ocrCacheKey;
+
+          let ocrResult: OcrResult | undefined;
+          let ocrError: string | undefined;
+          try {
+            ocrResult = cache?.getOcr(prep.hash, pageKey);
+            if (ocrResult) {
+              progress.set(`OCR ${i + 1}/${images.length} reused from cache`);
+            } else {
+              if (billableOcr) budget.checkOcrCall();
+              ocrResult = await ocr.recognize(page.ocrBytes, { signal, onRetry });
+              if (billableOcr) {
+                usage.ocrCalls++;
+                budget.add(settings.ocrPricePer1000 / 1000);
+              }
+              cache?.setOcr(prep.hash, pageKey, ocrResult);
+              progress.set(`OCR ${i + 1}/${images.length} complete`);
+            }
+          } catch (ocrErr) {
+            if (signal?.aborted) return cancelled(`after preparing ${i}/${images.length} image(s)`);
+            // A bad key or endpoint fails every image the same way; stop instead of sending OCR-less pages
+            if (isConfigurationError(ocrErr) || ocrErr instanceof BudgetExceededError) {
+              return { ok: false, fatal: true, message: ocrErr.message };
+            }
+            console.warn(`${ocr.label} OCR failed for ${pageName}:`, ocrErr);
+            ocrResult = undefined;
+            ocrError = errorMessage(ocrErr);
+            const reason = ocrErr instanceof RequestError ? ` (${ocrErr.message})` : "";
+            progress.set(`OCR ${i + 1}/${images.length} failed${reason}; continuing`);
+          }
+
+          if (!page.llmDataUrl) {
+            report(ref, pageName, "excluded", ocrError ? `OCR failed too: ${ocrError}` : "OCR text only");
+            progress.set(`Skipping ${pageName}: not sent to the model`);
+          } else if (ocrError) {
+            report(ref, pageName, "ocr-failed", ocrError);
+          } else {
+            report(ref, pageName, "ok", heicWarnings.get(ref.file.path));
+          }
+          perImageResults.push({
+            ref,
+            fileName: pageName,
+            hash: prep.hash,
+            part: page.label,
+            llmDataUrl: page.llmDataUrl,
+            llmWidth: page.llmWidth,
+            llmHeight: page.llmHeight,
+            ocrText: ocrResult?.text ?? "",
+            ocr: ocrResult,
+          });
+        }
+      } catch (e: any) {
+        if (signal?.aborted) return cancelled(`after preparing ${i}/${images.length} image(s)`);
+        console.error(`Failed to prepare image ${ref.file.name}`, e);
+        const reason = e instanceof Error && e.message ? e.message : "could not be read";
+        report(ref, ref.file.name, "prep-failed", reason);
+        progress.set(`Skipping ${ref.file.name}: ${reason}`);
+      }
+    }
+
+    // Ensure we have at least one image prepared for LLM
+    const anyLlmImages = perImageResults.some((r) => !!r.llmDataUrl);
+    if (!anyLlmImages) {
+      const summary = reportSummary(reports);
+      const detail = summary ? ` ${summary}` : "";
+      return { ok: false, message: `Failed to prepare images for model input.${detail}` };
+    }
+
+    usage.images = perImageResults.length;
+    const usableCount = perImageResults.filter((r) => !!r.llmDataUrl).length;
+    progress.set(`Calling ${llm.label} with ${usableCount} image(s)…`);
+
+    // Batched LLM calls with images + OCR bundle, stitched into one transcript
+    // Targeted runs write one block at insertAt, whatever the placement setting
+    const perImage = settings.placement === "per-image" && options.insertAt === undefined;
+    // Runs on some of the note's images get their own block, so replacing can't drop the others' text
+    const targeted = options.insertAt !== undefined || (partial && rerunMode === "replace");
+    const llmItems: LlmInputItem[] = perImageResults.map((r) => ({
+      fileName: r.fileName,
+      alt: r.ref.alt || "",
+      ocrText: r.ocrText,
+      ocr: r.ocr,
+      dataUrl: r.llmDataUrl, // can be undefined for some; service will filter
+      width: r.llmWidth,
+      height: r.llmHeight,
+      hash: r.part ? `${r.hash}#${r.part}` : r.hash, // pages of one file are cached apart
+    }));
+    // Shared by the main run and review re-runs
+    const beforeCall = (estimatedInputTokens: number) => budget.checkModelCall(estimatedInputTokens);
+    const onCall = (call: { inputTokens: number; outputTokens: number }) => {
+      usage.modelCalls++;
+      usage.inputTokens += call.inputTokens;
+      usage.outputTokens += call.outputTokens;
+      budget.add(estimateCost(settings, llm.model, { ...call, ocrCalls: 0 }) ?? 0);
+    };
+    let transcription: TranscriptionResult;
+    let callsDone = 0;
+    try {
+      transcription = await openAiTranscription(llm, llmItems, {
+        preset,
+        noteTitle: file.basename,
+        personalContext: settings.personalContext,
+        languages,
+        preserveMixedLanguages: settings.preserveMixedLanguages,
+        maxImagesPerBatch: settings.batchMaxImages,
+        maxInputTokensPerBatch: settings.batchMaxInputTokens,
+        // Review shows each image next to its own text, and re-runs it alone
+        perItem: perImage || !!options.review,
+        cache,
+        signal,
+        onRetry,
+        beforeCall,
+        onCall,
+        onBatch: (index, total) => {
+          callsDone = index;
+          if (total > 1) progress.setProgress(index, total, `Calling ${llm.label}: batch ${index + 1}/${total}…`);
+        },
+      });
+    } catch (e: any) {
+      if (signal?.aborted) return cancelled(`after ${callsDone} completed model call(s)`);
+      if (e instanceof BudgetExceededError || isConfigurationError(e)) return { ok: false, fatal: true, message: e.message };
+      console.error(e);
+      return { ok: false, message: e instanceof RequestError ? e.message : `${llm.label} request failed.` };
+    }
+
+    progress.set("Model response received.");
+
+    let batches = transcription.batches;
+    let modelOutput = transcription.text;
+    if (!modelOutput || modelOutput.trim().length === 0) {
+      return { ok: false, message: "Model returned empty result." };
+    }
+
+    if (options.review) {
+      progress.set("Waiting for review…");
+      const segments: ReviewSegment[] = batches.map((b) => ({
+        title: b.items.map((i) => `Image ${i + 1}: ${perImageResults[i].fileName}`).join(", "),
+        images: b.items.map((i) => ({
+          name: perImageResults[i].fileName,
+          src: perImageResults[i].llmDataUrl ?? app.vault.getResourcePath(perImageResults[i].ref.file),
+        })),
+        ocrText: b.items.map((i) => perImageResults[i].ocrText).join("\n\n"),
+        text: b.text,
+      }));
+      const rerun = async (index: number, instructions: string) => {
+        const subset = batches[index].items.map((i) => llmItems[i]);
+        // Keep the image's place in the run ("Image 3 of 5"), not "Image 1 of 1"
+        const numbering = { first: batches[index].items[0], total: llmItems.length };
+        const res = await openAiTranscription(llm, subset, {
+          preset,
+          noteTitle: file.basename,
+          personalContext: settings.personalContext,
+          languages,
+          preserveMixedLanguages: settings.preserveMixedLanguages,
+          maxImagesPerBatch: subset.length,
+          maxInputTokensPerBatch: Number.POSITIVE_INFINITY,
+          numbering,
+          extraInstructions: instructions,
+          signal,
+          onRetry,
+          beforeCall,
+          onCall,
+        });
+        return res.text;
+      };
+      const modal = new ReviewModal(app, segments, rerun);
+      const closeOnAbort = () => modal.close();
+      signal?.addEventListener("abort", closeOnAbort, { once: true });
+      const accepted = await modal.openAndWait();
+      signal?.removeEventListener("abort", closeOnAbort);
+      if (signal?.aborted) return cancelled("during review");
+      if (!accepted) {
+        return { ok: false, message: "Longhand: transcription discarded; note not changed." };
+      }
+      if (!accepted.length) {
+        return { ok: false, message: "Longhand: nothing accepted; note not changed." };
+      }
+      batches = accepted.map((d) => ({ items: batches[d.index].items, text: d.text }));
+      modelOutput = joinBatchTexts(batches.map((b) => b.text));
+    }
+
+    // Only images whose text is being written count as covered by the block (once per photo)
+    const written = perImageResults.filter(
+      (r, i) => batches.some((b) => b.items.includes(i)) && perImageResults.findIndex((o) => o.ref === r.ref) === i
+    );
+
+    if (settings.autoLinkEntities) {
+      try {
+        progress.set("Auto-linking entities…");
+        if (perImage) {
+          for (const batch of batches) {
+            batch.text = await wikilinkEntities(app, file, batch.text);
+          }
+        } else {
+          modelOutput = await wikilinkEntities(app, file, modelOutput);
+        }
+      } catch (e) {
+        console.warn("Auto-link entities failed", e);
+      }
+    }
+
+    if (signal?.aborted) return cancelled("before writing");
+    progress.set("Writing transcription to note…");
+
+    // Replace/extend existing Longhand block(s), or insert new ones at the configured placement
+    try {
+      if (perImage) {
+        // All pages of one embed (spread halves, PDF pages) go under that embed
+        const byEmbed = new Map<NoteImageRef, Parameters<typeof upsertPerImageBlocks>[1][number]>();
+        for (const b of batches.filter((b) => b.text.trim())) {
+          const r = perImageResults[b.items[0]];
+          const same = byEmbed.get(r.ref);
+          if (same) same.text = joinBatchTexts([same.text, b.text]);
+          else byEmbed.set(r.ref, { source: sourceOf(r.ref, r.hash), text: b.text, embed: r.ref.position });
+        }
+        const entries = Array.from(byEmbed.values());
+        if (settings.failureCallout) {
+          for (const entry of entries) {
+            const callout = reportCallout(reports.filter((r) => r.path === entry.source.path));
+            if (callout) entry.text = `${entry.text.trimEnd()}\n\n${callout}`;
+          }
+        }
+        await app.vault.process(file, (original) => upsertPerImageBlocks(original, entries));
+      } else {
+        const timestamp = new Date().toISOString().replace("T", " ").substring(0, 19);
+        const heading = `## Longhand transcription (${timestamp})`;
+        const sources = written.map((r) => sourceOf(r.ref, r.hash));
+        const callout = settings.failureCallout ? reportCallout(reports) : "";
+        if (callout) modelOutput = `${modelOutput.trimEnd()}\n\n${callout}`;
+        const placement: Placement =
+          options.insertAt !== undefined
+            ? { kind: "offset", offset: options.insertAt }
+            : resolvePlacement(settings, options.cursorOffset);
+        await app.vault.process(file, (original) =>
+          targeted
+            ? upsertTargetedBlock(original, {
+                placement,
+                heading,
+                text: modelOutput,
+                sources,
+              })
+            : upsertLonghandBlock(original, {
+                mode: rerunMode,
+                placement,
+                heading,
+                text: modelOutput,
+                sources,
+              })
+        );
+      }
+    } catch (e: any) {
+      console.error(e);
+      return { ok: false, message: "Failed to insert transcription into note." };
+    }
+
+    try {
+      await writeRunMetadata(
+        app,
+        file,
+        {
+          images: written.map((r) => sourceOf(r.ref, r.hash)),
+          ocr: ocr.cacheKey,
+          model: `${llm.id}:${llm.model}`,
+          processed: new Date().toISOString(),
+          tokens: { input: usage.inputTokens, output: usage.outputTokens },
+        },
+        perImage || rerunMode === "new-only" || targeted
+      );
+    } catch (e) {
+      console.warn("Failed to write Longhand frontmatter", e);
+    }
+    const cost = runCost();
+    const summary = reportSummary(reports);
+    return {
+      ok: true,
+      message:
+        `Longhand: inserted transcription for ${written.length} image(s)${cost ? ` (≈ $${cost.toFixed(3)})` : ""}.` +
+        (summary ? ` ${summary}` : ""),
+    };
+  } finally {
+    if (options.trace) Object.assign(options.trace, { model: usage.model, ocr: usage.ocr, cost: runCost() });
+    await persistCache?.();
+    if (usage.modelCalls || usage.ocrCalls) {
+      await plugin.usage.record(usage, runCost()).catch((e) => console.warn("Failed to record Longhand usage", e));
+    }
+    await ocr?.dispose?.();
+  }
+}
+
+/**
+ * What a block records about an image: its path, hash and, for one page of a PDF, the page.
+ */
+function sourceOf(ref: NoteImageRef, hash: string): LonghandSource {
+  return ref.pdfPage ? { path: ref.file.path, hash, page: ref.pdfPage } : { path: ref.file.path, hash };
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error && e.message ? e.message : "unknown error";
+}
+
+/**
+ * The images named by keys, in that order (first embed of each); keys no longer embedded are dropped.
+ */
+function pickInOrder(images: NoteImageRef[], keys: string[]): NoteImageRef[] {
+  const byKey = new Map<string, NoteImageRef>();
+  for (const r of images) if (!byKey.has(imageKey(r))) byKey.set(imageKey(r), r);
+  return keys.map((k) => byKey.get(k)).filter((r): r is NoteImageRef => r !== undefined);
+}
+
+function resolvePlacement(settings: LonghandSettings, cursorOffset: number | undefined): Placement {
+  switch (settings.placement) {
+    case "append":
+      return { kind: "append" };
+    case "heading":
+      return { kind: "heading", heading: settings.placementHeading };
+    case "cursor":
+      // No editor for this note (e.g. reading view): fall back to the top
+      return cursorOffset === undefined ? { kind: "prepend" } : { kind: "offset", offset: cursorOffset };
+    default:
+      return { kind: "prepend" };
+  }
+}
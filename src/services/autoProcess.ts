@@ -0,0 +1,123 @@
+import { normalizePath, TAbstractFile, TFile } from "obsidian";
+import type LonghandPlugin from "../main";
+import { collectImagesFromNote } from "./noteService";
+
+const IMAGE_EXT_RE = /^(png|jpe?g|webp|gif|bmp|svg|tiff?|heic|heif|pdf)$/i;
+// Images created longer ago than this are no longer considered "just attached"
+const RECENT_MS = 15 * 60 * 1000;
+
+/**
+ * Watches for freshly attached images and transcribes them without the command palette.
+ * - vault "create" records new image files (registered after layout-ready, so the initial
+ *   vault load is ignored).
+ * - metadataCache "changed" on a note under the configured folders looks for embeds of those
+ *   recent images; each note is debounced so several pages arriving together share one run.
+ * - Runs are handed to the plugin with just the new image paths.
+ */
+export class AutoProcessWatcher {
+  private recentImages = new Map<string, number>(); // image path -> created at
+  private pending = new Map<string, { timer: number; images: Set<string> }>(); // note path -> debounce
+  private busy = new Set<string>(); // notes currently being processed
+
+  constructor(
+    private plugin: LonghandPlugin,
+    private run: (note: TFile, images: Set<string>) => Promise<void>
+  ) {}
+
+  start() {
+    const { app } = this.plugin;
+    app.workspace.onLayoutReady(() => {
+      this.plugin.registerEvent(app.vault.on("create", (f) => this.onCreate(f)));
+      this.plugin.registerEvent(app.vault.on("rename", (f, oldPath) => this.onRename(f, oldPath)));
+      this.plugin.registerEvent(app.metadataCache.on("changed", (f) => void this.onNoteChanged(f)));
+    });
+    this.plugin.register(() => {
+      for (const p of this.pending.values()) window.clearTimeout(p.timer);
+      this.pending.clear();
+    });
+  }
+
+  private onCreate(f: TAbstractFile) {
+    if (!this.plugin.settings.autoProcess) return;
+    if (f instanceof TFile && IMAGE_EXT_RE.test(f.extension)) {
+      this.recentImages.set(f.path, Date.now());
+    }
+  }
+
+  private onRename(f: TAbstractFile, oldPath: string) {
+    const created = this.recentImages.get(oldPath);
+    if (created !== undefined) {
+      this.recentImages.delete(oldPath);
+      this.recentImages.set(f.path, created);
+    }
+  }
+
+  private async onNoteChanged(note: TFile) {
+    const settings = this.plugin.settings;
+    if (!settings.autoProcess || note.extension !== "md") return;
+    if (this.busy.has(note.path) || !this.inWatchedFolder(note.path)) return;
+
+    this.pruneRecent();
+    if (!this.recentImages.size) return;
+
+    const images = await collectImagesFromNote(this.plugin.app, note, Number.POSITIVE_INFINITY);
+    const fresh = images.map((r) => r.file.path).filter((p) => this.recentImages.has(p));
+    if (!fresh.length) return;
+
+    // Debounce: restart the timer while more pages keep arriving
+    const entry = this.pending.get(note.path) ?? { timer: 0, images: new Set<string>() };
+    window.clearTimeout(entry.timer);
+    for (const p of fresh) entry.images.add(p);
+    entry.timer = window.setTimeout(() => void this.flush(note), Math.max(1, settings.autoProcessDelaySeconds) * 1000);
+    this.pending.set(note.path, entry);
+  }
+
+  private async flush(note: TFile) {
+    const entry = this.pending.get(note.path);
+    this.pending.delete(note.path);
+    if (!entry || !entry.images.size) return;
+
+    this.busy.add(note.path);
+    try {
+      await this.run(note, entry.images);
+    } catch (e) {
+      console.error(`Longhand auto-process failed for ${note.path}`, e);
+    } finally {
+      // Forget the processed images and files the run derived from them (HEIC -> JPEG,
+      // page crops, cleanup debug images, all saved beside the source under its name), so the
+      // run's own edits don't trigger another run.
+      for (const p of entry.images) this.recentImages.delete(p);
+      for (const p of Array.from(this.recentImages.keys())) {
+        if (Array.from(entry.images).some((source) => isDerivedFrom(p, source))) this.recentImages.delete(p);
+      }
+      this.busy.delete(note.path);
+    }
+    // Pages embedded while the run was busy were ignored; pick them up now
+    await this.onNoteChanged(note);
+  }
+
+  private inWatchedFolder(path: string): boolean {
+    const folders = this.plugin.settings.autoProcessFolders
+      .split(/[\n,]/)
+      .map((f) => f.trim())
+      .filter(Boolean)
+      .map((f) => normalizePath(f));
+    if (!folders.length) return true;
+    return folders.some((f) => f === "/" || path.startsWith(`${f}/`));
+  }
+
+  private pruneRecent() {
+    const cutoff = Date.now() - RECENT_MS;
+    for (const [path, created] of this.recentImages) {
+      if (created < cutoff) this.recentImages.delete(path);
+    }
+  }
+}
+
+function isDerivedFrom(path: string, source: string): boolean {
+  const dir = (p: string) => p.slice(0, p.lastIndexOf("/") + 1);
+  const stem = source.slice(dir(source).length).replace(/\.[^.]+$/, "");
+  const name = path.slice(dir(path).length);
+  // "<stem>.jpg", "<stem>.longhand.png", "<stem>.left.jpg", or "<stem> (1).jpg" after a name collision
+  return dir(path) === dir(source) && (name.startsWith(`${stem}.`) || name.startsWith(`${stem} (`));
+}
@@ -0,0 +1,44 @@
+import { App } from "obsidian";
+
+export interface BatchQueue {
+  label: string; // e.g. "folder Journal/2024" or "tag #longhand/inbox"
+  pending: string[]; // note paths still to process, in order
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  startedAt: number;
+}
+
+/**
+ * Persists the running batch as a JSON file in the plugin folder after every note, so a
+ * batch interrupted by closing Obsidian can be resumed where it stopped.
+ */
+export class BatchQueueStore {
+  constructor(
+    private app: App,
+    private path: string
+  ) {}
+
+  async load(): Promise<BatchQueue | undefined> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.path))) return undefined;
+      const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+      if (!Array.isArray(parsed?.pending) || parsed.pending.length === 0) return undefined;
+      return parsed as BatchQueue;
+    } catch (e) {
+      console.warn("Longhand: failed to read batch queue.", e);
+      return undefined;
+    }
+  }
+
+  async save(queue: BatchQueue): Promise<void> {
+    await this.app.vault.adapter.write(this.path, JSON.stringify(queue));
+  }
+
+  async clear(): Promise<void> {
+    if (await this.app.vault.adapter.exists(this.path)) {
+      await this.app.vault.adapter.remove(this.path);
+    }
+  }
+}
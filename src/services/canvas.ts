@@ -0,0 +1,101 @@
+/**
+ * Small canvas helpers shared by the image stages (cleanup, page detection).
+ */
+export function newCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return ctx;
+}
+
+/**
+ * Decode into a canvas, scaled down to fit maxEdge. EXIF orientation is applied unless disabled.
+ */
+export async function decodeToCanvas(blob: Blob, maxEdge: number, applyOrientation = true): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(blob, { imageOrientation: applyOrientation ? "from-image" : "none" });
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = newCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  context(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+}
+
+/**
+ * Grayscale copy scaled down to fit maxEdge, for analysis.
+ */
+export function grayThumbnail(canvas: HTMLCanvasElement, maxEdge: number): { gray: Uint8Array; width: number; height: number } {
+  const scale = Math.min(1, maxEdge / Math.max(canvas.width, canvas.height));
+  const small = newCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+  const ctx = context(small);
+  ctx.drawImage(canvas, 0, 0, small.width, small.height);
+  return { gray: toGray(ctx.getImageData(0, 0, small.width, small.height)), width: small.width, height: small.height };
+}
+
+/**
+ * Decode through an <img>, which (unlike createImageBitmap) also handles SVG.
+ */
+export function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+}
+
+export async function canvasToBlob(canvas: HTMLCanvasElement, mime: string, quality = 0.92): Promise<Blob> {
+  const out = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mime, quality));
+  if (!out) throw new Error("Canvas encoding failed");
+  return out;
+}
+
+export function toGray(data: ImageData): Uint8Array {
+  const px = data.data;
+  const gray = new Uint8Array(data.width * data.height);
+  for (let i = 0, j = 0; j < gray.length; i += 4, j++) {
+    gray[j] = (px[i] * 299 + px[i + 1] * 587 + px[i + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+/**
+ * Otsu's threshold: values below it are the darker class.
+ */
+export function otsu(gray: Uint8Array): number {
+  const hist = new Uint32Array(256);
+  for (const g of gray) hist[g]++;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * hist[v];
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 128;
+  let bestVar = -1;
+  for (let t = 0; t < 256; t++) {
+    countBelow += hist[t];
+    if (!countBelow) continue;
+    const countAbove = gray.length - countBelow;
+    if (!countAbove) break;
+    sumBelow += t * hist[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > bestVar) {
+      bestVar = between;
+      best = t + 1;
+    }
+  }
+  return best;
+}
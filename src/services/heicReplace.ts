@@ -19,24 +19,42 @@ export async function convertHeicVaultFileToJpeg(app: App, heicFile: TFile): Pro
   })) as Blob;
 
   const jpegBytes = await jpegBlob.arrayBuffer();
+  return createBinaryBeside(app, heicFile, heicFile.basename, "jpg", jpegBytes);
+}
 
-  const folder = heicFile.parent?.path ?? "";
-  const base = heicFile.basename;
-
-  let fileName = `${base}.jpg`;
-  let outPath = folder ? normalizePath(`${folder}/${fileName}`) : normalizePath(fileName);
+/**
+ * Create a binary file in the same folder as source, named "<baseName>.<ext>".
+ * - By default avoids name collisions by appending " (n)".
+ * - With replace, an existing file of that name is overwritten instead (for derived files
+ *   that are regenerated on every run).
+ */
+export async function createBinaryBeside(
+  app: App,
+  source: TFile,
+  baseName: string,
+  ext: string,
+  bytes: ArrayBuffer,
+  replace = false
+): Promise<TFile> {
+  const folder = source.parent?.path ?? "";
+  const pathFor = (fileName: string) => (folder ? normalizePath(`${folder}/${fileName}`) : normalizePath(fileName));
+
+  let outPath = pathFor(`${baseName}.${ext}`);
+  const existing = app.vault.getAbstractFileByPath(outPath);
+  if (replace && existing instanceof TFile) {
+    await app.vault.modifyBinary(existing, bytes);
+    return existing;
+  }
 
   // Avoid collisions
   let counter = 1;
   // adapter.exists returns boolean
   while (await app.vault.adapter.exists(outPath)) {
-    fileName = `${base} (${counter}).jpg`;
-    outPath = folder ? normalizePath(`${folder}/${fileName}`) : normalizePath(fileName);
+    outPath = pathFor(`${baseName} (${counter}).${ext}`);
     counter++;
   }
 
-  const created = await app.vault.createBinary(outPath, jpegBytes);
-  return created;
+  return app.vault.createBinary(outPath, bytes);
 }
 
 /**
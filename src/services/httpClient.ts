@@ -0,0 +1,211 @@
+import type { LonghandSettings } from "../settings";
+
+/**
+ * Per-call hooks threaded from the pipeline down to each request.
+ * - signal aborts the request in flight and any backoff wait.
+ * - onRetry receives a user-facing message before each retry (e.g. for progress).
+ */
+export interface RequestContext {
+  signal?: AbortSignal;
+  onRetry?: (message: string) => void;
+}
+
+export interface RequestOptions extends RequestContext {
+  label: string; // service name used in messages; also the pacing key
+  maxRetries?: number;
+  requestsPerSecond?: number; // 0 or unset = no pacing
+}
+
+/**
+ * A failed request with a user-facing message.
+ * - retryable: 408/429/5xx and network errors; anything else (400, 401, 404, ...) is fatal.
+ * - retryAfterMs: from the Retry-After header, when the service sent one.
+ */
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly retryable: boolean,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+
+  /**
+   * Build from an HTTP status. detail is the service's own error message, if any.
+   */
+  static fromStatus(label: string, status: number, statusText: string, detail?: string, retryAfterMs?: number) {
+    const code = `${status}${statusText ? ` ${statusText}` : ""}`;
+    const suffix = detail ? `: ${truncate(detail, 200)}` : "";
+    let message: string;
+    if (status === 401 || status === 403) {
+      message = `${label}: authentication failed (${code})${suffix}. Check the API key and endpoint in settings.`;
+    } else if (status === 404) {
+      message = `${label}: not found (${code})${suffix}. Check the endpoint, model or deployment name in settings.`;
+    } else if (status === 413) {
+      message = `${label}: image too large (${code})${suffix}`;
+    } else if (status === 429) {
+      message = `${label}: rate limited (${code})${suffix}`;
+    } else if (status >= 500) {
+      message = `${label}: service error (${code})${suffix}`;
+    } else {
+      message = `${label}: request rejected (${code})${suffix}`;
+    }
+    return new RequestError(message, status, isRetryableStatus(status), retryAfterMs);
+  }
+
+  static network(label: string, cause: unknown) {
+    const reason = cause instanceof Error && cause.message ? ` (${cause.message})` : "";
+    return new RequestError(`${label}: network error${reason}`, undefined, true);
+  }
+}
+
+// Longest Retry-After honored before giving up on the wait
+const MAX_RETRY_AFTER_MS = 60_000;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * Retry/pacing limits from settings.
+ */
+export function requestLimits(settings: LonghandSettings): Pick<RequestOptions, "maxRetries" | "requestsPerSecond"> {
+  return { maxRetries: settings.maxRetries, requestsPerSecond: settings.requestsPerSecond };
+}
+
+/**
+ * True for errors that will fail every request of the run (bad key, wrong endpoint), so
+ * continuing with the remaining images is pointless.
+ */
+export function isConfigurationError(e: unknown): e is RequestError {
+  return e instanceof RequestError && (e.status === 401 || e.status === 403 || e.status === 404);
+}
+
+/**
+ * fetch() with pacing and retries. Resolves with a 2xx response; otherwise rejects with a
+ * RequestError carrying the service's error message.
+ */
+export function fetchWithRetry(url: string, init: RequestInit, options: RequestOptions): Promise<Response> {
+  return withRetry(options, async () => {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: options.signal });
+    } catch (e) {
+      if (options.signal?.aborted) throw e;
+      throw RequestError.network(options.label, e);
+    }
+    if (!res.ok) {
+      throw RequestError.fromStatus(
+        options.label,
+        res.status,
+        res.statusText,
+        await errorDetail(res),
+        retryAfterFrom((name) => res.headers.get(name))
+      );
+    }
+    return res;
+  });
+}
+
+/**
+ * Run attempt() with pacing before every try and exponential backoff with jitter between
+ * retryable failures (Retry-After wins when present). Errors other than RequestError are
+ * passed through unchanged; aborting stops immediately.
+ */
+export async function withRetry<T>(options: RequestOptions, attempt: () => Promise<T>): Promise<T> {
+  const maxRetries = Math.max(0, options.maxRetries ?? 3);
+  for (let retry = 0; ; retry++) {
+    await pace(options.label, options.requestsPerSecond ?? 0, options.signal);
+    try {
+      return await attempt();
+    } catch (e) {
+      options.signal?.throwIfAborted();
+      if (!(e instanceof RequestError) || !e.retryable) throw e;
+      if (retry >= maxRetries) {
+        throw new RequestError(
+          maxRetries ? `${e.message}; gave up after ${maxRetries} retries` : e.message,
+          e.status,
+          false
+        );
+      }
+      const delay = backoffDelay(retry, e.retryAfterMs);
+      options.onRetry?.(`${e.message}; retrying in ${Math.ceil(delay / 1000)}s (${retry + 1}/${maxRetries})`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Requested wait in ms from retry-after-ms (OpenAI/Azure) or Retry-After, which is either
+ * delay-seconds or an HTTP date.
+ */
+export function retryAfterFrom(header: (name: string) => string | null | undefined): number | undefined {
+  const ms = Number(header("retry-after-ms") || NaN);
+  if (Number.isFinite(ms)) return Math.max(0, ms);
+  const value = header("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+function backoffDelay(retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** retry);
+  // "Equal jitter": at least half the ceiling so retries still back off
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Earliest start time handed out per pacing key; each caller reserves the next slot
+const nextSlot = new Map<string, number>();
+
+async function pace(key: string, requestsPerSecond: number, signal?: AbortSignal) {
+  if (!(requestsPerSecond > 0)) return;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(key) ?? 0);
+  nextSlot.set(key, slot + 1000 / requestsPerSecond);
+  if (slot > now) await sleep(slot - now, signal);
+}
+
+/**
+ * The service's own error message from a JSON (or short text) error body.
+ */
+async function errorDetail(res: Response): Promise<string | undefined> {
+  try {
+    const body = await res.text();
+    try {
+      const data = JSON.parse(body);
+      const msg = data?.error?.message ?? data?.message ?? data?.error;
+      if (typeof msg === "string") return msg;
+    } catch {
+      // not JSON
+    }
+    return body.trim() && body.length < 300 ? body.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,295 @@
+import type { LonghandSettings } from "../settings";
+import { canvasToBlob, context, decodeToCanvas, grayThumbnail, newCanvas, otsu, toGray } from "./canvas";
+
+export type ContrastMode = "off" | "normalize" | "threshold";
+
+export interface CleanupOptions {
+  autoRotate: boolean; // EXIF orientation plus 90/180° detection
+  deskew: boolean; // small tilts, up to MAX_SKEW degrees
+  contrast: ContrastMode;
+}
+
+export interface CleanupResult {
+  blob: Blob;
+  steps: string[]; // what was changed, e.g. ["rotated 90°", "deskewed -2.3°"]
+}
+
+// Working resolution cap: keeps canvas memory bounded and the integral image within 32 bits
+const MAX_EDGE = 4096;
+// Resolution used to detect rotation and skew
+const ANALYSIS_EDGE = 800;
+const MAX_SKEW = 8;
+const MIN_SKEW = 0.3;
+
+/**
+ * Cleanup steps from settings, or undefined when cleanup is off.
+ */
+export function cleanupOptions(settings: LonghandSettings): CleanupOptions | undefined {
+  if (!settings.imageCleanup) return undefined;
+  return { autoRotate: settings.cleanupAutoRotate, deskew: settings.cleanupDeskew, contrast: settings.cleanupContrast };
+}
+
+/**
+ * Suffix for OCR cache keys, so results from cleaned and original images are kept apart.
+ */
+export function cleanupCacheKey(settings: LonghandSettings): string {
+  const o = cleanupOptions(settings);
+  return o ? `:clean-${o.autoRotate ? "r" : ""}${o.deskew ? "d" : ""}-${o.contrast}` : "";
+}
+
+/**
+ * Canvas cleanup of a page photo, in order:
+ * - autoRotate: apply EXIF orientation while decoding, then turn pages whose text lines run
+ *   vertically or upside down (ascenders vs descenders; works best on Latin script).
+ * - deskew: straighten by the angle whose row projection of ink pixels is sharpest.
+ * - contrast: stretch levels to the 1st-99th percentile, or adaptive threshold to black and
+ *   white (helps faint pencil; output is PNG).
+ * The output carries no metadata. Images larger than MAX_EDGE are scaled down.
+ */
+export async function cleanupImage(blob: Blob, options: CleanupOptions): Promise<CleanupResult> {
+  let canvas = await decodeToCanvas(blob, MAX_EDGE, options.autoRotate);
+  const steps: string[] = [];
+
+  if (options.autoRotate) {
+    const turn = detectQuarterTurn(inkMask(canvas));
+    if (turn) {
+      canvas = rotateCanvas(canvas, turn);
+      steps.push(`rotated ${turn}°`);
+    }
+  }
+
+  if (options.deskew) {
+    const angle = detectSkew(inkMask(canvas));
+    if (Math.abs(angle) >= MIN_SKEW) {
+      canvas = rotateCanvas(canvas, -angle);
+      steps.push(`deskewed ${angle.toFixed(1)}°`);
+    }
+  }
+
+  if (options.contrast !== "off") {
+    const ctx = context(canvas);
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const changed = options.contrast === "threshold" ? adaptiveThreshold(data) : normalizeLevels(data);
+    if (changed) {
+      ctx.putImageData(data, 0, 0);
+      steps.push(options.contrast === "threshold" ? "thresholded" : "contrast normalized");
+    }
+  }
+
+  const mime = options.contrast === "threshold" ? "image/png" : "image/jpeg";
+  return { blob: await canvasToBlob(canvas, mime), steps };
+}
+
+interface Mask {
+  ink: Uint8Array; // 1 = dark pixel
+  width: number;
+  height: number;
+}
+
+/**
+ * Downscaled ink mask: grayscale, then Otsu's threshold.
+ */
+function inkMask(canvas: HTMLCanvasElement): Mask {
+  const { gray, width, height } = grayThumbnail(canvas, ANALYSIS_EDGE);
+  const threshold = otsu(gray);
+  const ink = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) ink[i] = gray[i] < threshold ? 1 : 0;
+  return { ink, width, height };
+}
+
+/**
+ * Clockwise turn (0/90/180/270) that makes text lines horizontal and upright.
+ */
+function detectQuarterTurn(mask: Mask): number {
+  const density = mask.ink.reduce((n, v) => n + v, 0) / mask.ink.length;
+  if (density < 0.002 || density > 0.4) return 0; // blank or mostly dark: nothing to read
+  const rows = profile(mask, "rows");
+  const cols = profile(mask, "cols");
+  if (sharpness(cols) > sharpness(rows) * 1.5) {
+    return isUpsideDown(turnClockwise(mask)) ? 270 : 90;
+  }
+  return isUpsideDown(mask) ? 180 : 0;
+}
+
+/**
+ * Upright Latin text has more ink above the x-height band (ascenders, capitals, i-dots)
+ * than below it (descenders). Compares the two over all detected text lines.
+ */
+function isUpsideDown(mask: Mask): boolean {
+  const rows = profile(mask, "rows");
+  const max = Math.max(...rows);
+  if (!max) return false;
+  let above = 0;
+  let below = 0;
+  let y = 0;
+  while (y < rows.length) {
+    if (rows[y] < max * 0.05) {
+      y++;
+      continue;
+    }
+    const top = y;
+    while (y < rows.length && rows[y] >= max * 0.05) y++;
+    const bottom = y - 1;
+    if (bottom - top < 4) continue;
+    const peak = Math.max(...rows.slice(top, bottom + 1));
+    let coreTop = top;
+    while (rows[coreTop] < peak * 0.5) coreTop++;
+    let coreBottom = bottom;
+    while (rows[coreBottom] < peak * 0.5) coreBottom--;
+    for (let r = top; r < coreTop; r++) above += rows[r];
+    for (let r = coreBottom + 1; r <= bottom; r++) below += rows[r];
+  }
+  return above + below > 50 && below > above * 1.3;
+}
+
+/**
+ * Text line angle in degrees (positive = lines fall to the right), found by maximizing the
+ * sum of squared row counts of the rotated ink pixels: coarse 0.5° steps, then 0.1°.
+ */
+function detectSkew(mask: Mask): number {
+  const points: number[] = [];
+  const step = Math.max(1, Math.floor(mask.ink.reduce((n, v) => n + v, 0) / 20000));
+  let seen = 0;
+  for (let i = 0; i < mask.ink.length; i++) {
+    if (mask.ink[i] && seen++ % step === 0) points.push(i % mask.width, Math.floor(i / mask.width));
+  }
+  if (points.length < 200) return 0;
+  const score = (deg: number) => {
+    const a = (deg * Math.PI) / 180;
+    const sin = Math.sin(a);
+    const cos = Math.cos(a);
+    const offset = mask.width + mask.height;
+    const bins = new Uint32Array(2 * offset + 1);
+    for (let p = 0; p < points.length; p += 2) bins[Math.round(points[p + 1] * cos - points[p] * sin) + offset]++;
+    let sum = 0;
+    for (const b of bins) sum += b * b;
+    return sum;
+  };
+  const search = (from: number, to: number, by: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let deg = from; deg <= to + 1e-9; deg += by) {
+      const s = score(deg);
+      if (s > bestScore) {
+        bestScore = s;
+        best = deg;
+      }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.1);
+}
+
+function profile(mask: Mask, axis: "rows" | "cols"): number[] {
+  const out = new Array<number>(axis === "rows" ? mask.height : mask.width).fill(0);
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.ink[y * mask.width + x]) out[axis === "rows" ? y : x]++;
+    }
+  }
+  return out;
+}
+
+// Squared coefficient of variation: high when ink comes in bands (text lines) along this axis
+function sharpness(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (!mean) return 0;
+  return values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length / (mean * mean);
+}
+
+function turnClockwise(mask: Mask): Mask {
+  const { width: w, height: h } = mask;
+  const ink = new Uint8Array(w * h);
+  // new (nx, ny) comes from old (x = ny, y = h - 1 - nx); the new width is h
+  for (let ny = 0; ny < w; ny++) {
+    for (let nx = 0; nx < h; nx++) ink[ny * h + nx] = mask.ink[(h - 1 - nx) * w + ny];
+  }
+  return { ink, width: h, height: w };
+}
+
+/**
+ * Rotate clockwise by degrees onto a white canvas large enough for the whole image.
+ */
+function rotateCanvas(canvas: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const a = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(a));
+  const cos = Math.abs(Math.cos(a));
+  const out = newCanvas(
+    Math.round(canvas.width * cos + canvas.height * sin),
+    Math.round(canvas.width * sin + canvas.height * cos)
+  );
+  const ctx = context(out);
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.translate(out.width / 2, out.height / 2);
+  ctx.rotate(a);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return out;
+}
+
+/**
+ * Stretch levels so the 1st and 99th luminance percentiles become black and white.
+ */
+function normalizeLevels(data: ImageData): boolean {
+  const gray = toGray(data);
+  const hist = new Uint32Array(256);
+  for (const g of gray) hist[g]++;
+  const lo = percentile(hist, gray.length, 0.01);
+  const hi = percentile(hist, gray.length, 0.99);
+  if (hi - lo < 16 || (lo <= 2 && hi >= 253)) return false; // flat image, or already full range
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = ((v - lo) * 255) / (hi - lo);
+  const px = data.data;
+  for (let i = 0; i < px.length; i += 4) {
+    px[i] = lut[px[i]];
+    px[i + 1] = lut[px[i + 1]];
+    px[i + 2] = lut[px[i + 2]];
+  }
+  return true;
+}
+
+/**
+ * Bradley's adaptive threshold: a pixel is ink when it is 15% darker than the mean of its
+ * neighbourhood (1/16 of the width), so uneven lighting doesn't swallow faint strokes.
+ */
+function adaptiveThreshold(data: ImageData): boolean {
+  const { width: w, height: h } = data;
+  const gray = toGray(data);
+  const integral = new Uint32Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let row = 0;
+    for (let x = 0; x < w; x++) {
+      row += gray[y * w + x];
+      integral[(y + 1) * (w + 1) + x + 1] = integral[y * (w + 1) + x + 1] + row;
+    }
+  }
+  const half = Math.max(7, Math.round(w / 32));
+  const px = data.data;
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(h, y + half + 1);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(w, x + half + 1);
+      const sum =
+        integral[y1 * (w + 1) + x1] - integral[y0 * (w + 1) + x1] - integral[y1 * (w + 1) + x0] + integral[y0 * (w + 1) + x0];
+      const area = (x1 - x0) * (y1 - y0);
+      const v = gray[y * w + x] * area < sum * 0.85 ? 0 : 255;
+      const i = (y * w + x) * 4;
+      px[i] = px[i + 1] = px[i + 2] = v;
+      px[i + 3] = 255;
+    }
+  }
+  return true;
+}
+
+function percentile(hist: Uint32Array, total: number, p: number): number {
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += hist[v];
+    if (seen >= total * p) return v;
+  }
+  return 255;
+}
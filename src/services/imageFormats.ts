@@ -0,0 +1,73 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - runtime-only lib with no types by default
+import UTIF from "utif";
+import { canvasToBlob, context, loadImageFromBlob, newCanvas } from "./canvas";
+import type { PageImage } from "./pageDetect";
+
+// Formats every OCR provider and vision model accepts; anything else is converted
+const MODEL_READY_TYPES = new Set(["image/png", "image/jpeg", "image/webp", "image/gif"]);
+// Vector images have no useful pixel size; they are rendered at this long edge
+const SVG_EDGE = 2048;
+
+export function isModelReadyType(mime: string | undefined): boolean {
+  return !!mime && MODEL_READY_TYPES.has(mime);
+}
+
+export function looksTiff(fileName: string, bytes: ArrayBuffer): boolean {
+  if (/\.tiff?$/i.test(fileName)) return true;
+  const u8 = new Uint8Array(bytes.slice(0, 4));
+  return (
+    (u8[0] === 0x49 && u8[1] === 0x49 && u8[2] === 0x2a && u8[3] === 0x00) || // "II*\0"
+    (u8[0] === 0x4d && u8[1] === 0x4d && u8[2] === 0x00 && u8[3] === 0x2a) // "MM\0*"
+  );
+}
+
+/**
+ * Decode every page of a (multi-page) TIFF with UTIF, at most limit pages. Reduced-resolution
+ * thumbnails are skipped. Color pages become JPEG, bilevel/grayscale scans PNG; several pages
+ * are labelled "page N of M".
+ */
+export async function decodeTiff(bytes: ArrayBuffer, limit: number): Promise<PageImage[]> {
+  const ifds: any[] = UTIF.decode(bytes);
+  const pages = ifds.filter((ifd) => ifd.t256 && !(ifd.t254 && ifd.t254[0] & 1));
+  const out: PageImage[] = [];
+  for (let i = 0; i < Math.min(pages.length, limit); i++) {
+    const ifd = pages[i];
+    UTIF.decodeImage(bytes, ifd, ifds);
+    const rgba: Uint8Array = UTIF.toRGBA8(ifd);
+    const canvas = newCanvas(ifd.width, ifd.height);
+    const ctx = context(canvas);
+    const data = ctx.createImageData(ifd.width, ifd.height);
+    data.data.set(rgba);
+    ctx.putImageData(data, 0, 0);
+    const photometric = ifd.t262?.[0]; // 2 = RGB, 6 = YCbCr
+    const mime = photometric === 2 || photometric === 6 ? "image/jpeg" : "image/png";
+    out.push({
+      blob: await canvasToBlob(canvas, mime),
+      label: pages.length > 1 ? `page ${i + 1} of ${pages.length}` : undefined,
+    });
+  }
+  return out;
+}
+
+/**
+ * Redraw an image the browser can decode but models don't take (BMP, SVG, ICO, …) as PNG,
+ * on white so transparent areas don't turn black for OCR.
+ */
+export async function convertToPng(blob: Blob): Promise<Blob> {
+  const img = await loadImageFromBlob(blob);
+  let width = img.naturalWidth || img.width;
+  let height = img.naturalHeight || img.height;
+  if (blob.type === "image/svg+xml") {
+    const scale = SVG_EDGE / Math.max(width || SVG_EDGE, height || SVG_EDGE);
+    width = Math.round((width || SVG_EDGE) * scale);
+    height = Math.round((height || SVG_EDGE) * scale);
+  }
+  if (!width || !height) throw new Error("image has no size");
+  const canvas = newCanvas(width, height);
+  const ctx = context(canvas);
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvasToBlob(canvas, "image/png");
+}
@@ -0,0 +1,169 @@
+/**
+ * Byte-level metadata removal for JPEG, PNG and WebP, so photos can be uploaded without
+ * GPS coordinates, device serials or timestamps. Pixel data is copied untouched.
+ * - JPEG: drops APP1 (EXIF, XMP), APP13 (IPTC), other APPn and comments; keeps JFIF,
+ *   the ICC profile and the Adobe marker (they affect how colors decode).
+ * - PNG: drops eXIf, tEXt, zTXt, iTXt and tIME chunks.
+ * - WebP: drops EXIF and XMP chunks and clears their VP8X flags.
+ * Other formats, and files that don't parse, give undefined: nothing can be vouched for.
+ */
+export interface StrippedImage {
+  bytes: ArrayBuffer;
+  orientation: number; // EXIF orientation found before stripping; 1 = upright or unknown
+  changed: boolean; // false when there was nothing to remove
+}
+
+const JPEG_KEEP_APP = new Set([0xe0, 0xee]); // JFIF, Adobe
+const PNG_DROP_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+export function stripImageMetadata(bytes: ArrayBuffer, mime: string | undefined): StrippedImage | undefined {
+  try {
+    if (mime === "image/jpeg") return stripJpeg(bytes);
+    if (mime === "image/png") return stripPng(bytes);
+    if (mime === "image/webp") return stripWebp(bytes);
+  } catch (e) {
+    console.warn("Longhand: could not parse image metadata.", e);
+  }
+  return undefined;
+}
+
+function stripJpeg(bytes: ArrayBuffer): StrippedImage | undefined {
+  const u8 = new Uint8Array(bytes);
+  if (u8[0] !== 0xff || u8[1] !== 0xd8) return undefined;
+  const view = new DataView(bytes);
+  const parts: Uint8Array[] = [u8.subarray(0, 2)];
+  let orientation = 1;
+  let changed = false;
+  let i = 2;
+  while (i + 4 <= u8.length) {
+    if (u8[i] !== 0xff) return undefined; // not at a marker: malformed
+    const marker = u8[i + 1];
+    if (marker === 0xff) {
+      i++; // fill byte
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(u8.subarray(i, i + 2));
+      i += 2;
+      continue;
+    }
+    if (marker === 0xda) break; // start of scan: the rest is image data
+    const end = i + 2 + view.getUint16(i + 2);
+    if (end > u8.length) return undefined;
+    const segment = u8.subarray(i, end);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    if (marker === 0xe1 && ascii(segment, 4, 6) === "Exif\0\0") {
+      orientation = tiffOrientation(bytes, i + 10, end) ?? orientation;
+    }
+    const keep = isApp ? JPEG_KEEP_APP.has(marker) || isIccProfile(segment) : marker !== 0xfe;
+    if (keep) parts.push(segment);
+    else changed = true;
+    i = end;
+  }
+  if (!changed) return { bytes, orientation, changed };
+  parts.push(u8.subarray(i));
+  return { bytes: concat(parts), orientation, changed };
+}
+
+function isIccProfile(segment: Uint8Array): boolean {
+  return segment[1] === 0xe2 && ascii(segment, 4, 12) === "ICC_PROFILE\0";
+}
+
+function stripPng(bytes: ArrayBuffer): StrippedImage | undefined {
+  const u8 = new Uint8Array(bytes);
+  if (u8.length < 8 || u8[0] !== 0x89 || ascii(u8, 1, 3) !== "PNG") return undefined;
+  const view = new DataView(bytes);
+  const parts: Uint8Array[] = [u8.subarray(0, 8)];
+  let orientation = 1;
+  let changed = false;
+  let i = 8;
+  while (i + 12 <= u8.length) {
+    const length = view.getUint32(i);
+    const type = ascii(u8, i + 4, 4);
+    const end = i + 12 + length;
+    if (end > u8.length) return undefined;
+    if (PNG_DROP_CHUNKS.has(type)) {
+      if (type === "eXIf") orientation = tiffOrientation(bytes, i + 8, i + 8 + length) ?? orientation;
+      changed = true;
+    } else {
+      parts.push(u8.subarray(i, end));
+    }
+    i = end;
+    if (type === "IEND") break;
+  }
+  return changed ? { bytes: concat(parts), orientation, changed } : { bytes, orientation, changed };
+}
+
+function stripWebp(bytes: ArrayBuffer): StrippedImage | undefined {
+  const u8 = new Uint8Array(bytes);
+  if (u8.length < 12 || ascii(u8, 0, 4) !== "RIFF" || ascii(u8, 8, 4) !== "WEBP") return undefined;
+  const view = new DataView(bytes);
+  const parts: Uint8Array[] = [];
+  let orientation = 1;
+  let changed = false;
+  let i = 12;
+  while (i + 8 <= u8.length) {
+    const type = ascii(u8, i, 4);
+    const size = view.getUint32(i + 4, true);
+    const end = Math.min(u8.length, i + 8 + size + (size % 2)); // chunks are padded to even length
+    if (type === "EXIF" || type === "XMP ") {
+      if (type === "EXIF") {
+        const start = ascii(u8, i + 8, 6) === "Exif\0\0" ? i + 14 : i + 8;
+        orientation = tiffOrientation(bytes, start, i + 8 + size) ?? orientation;
+      }
+      changed = true;
+    } else if (type === "VP8X") {
+      const chunk = u8.slice(i, end);
+      chunk[8] &= ~(0x08 | 0x04); // EXIF and XMP present flags
+      parts.push(chunk);
+    } else {
+      parts.push(u8.subarray(i, end));
+    }
+    i = end;
+  }
+  if (!changed) return { bytes, orientation, changed };
+  const body = concat(parts);
+  const header = new Uint8Array(12);
+  header.set(u8.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.byteLength + 4, true);
+  return { bytes: concat([header, new Uint8Array(body)]), orientation, changed };
+}
+
+/**
+ * Orientation tag (0x0112) from IFD0 of a TIFF structure at [start, end), or undefined.
+ */
+function tiffOrientation(bytes: ArrayBuffer, start: number, end: number): number | undefined {
+  if (end - start < 8 || end > bytes.byteLength) return undefined;
+  const view = new DataView(bytes, start, end - start);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return undefined;
+  const little = order === 0x4949;
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > view.byteLength) return undefined;
+  const count = view.getUint16(ifd, little);
+  for (let n = 0; n < count; n++) {
+    const entry = ifd + 2 + n * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? value : undefined;
+    }
+  }
+  return undefined;
+}
+
+function ascii(u8: Uint8Array, start: number, length: number): string {
+  let s = "";
+  for (let i = start; i < start + length && i < u8.length; i++) s += String.fromCharCode(u8[i]);
+  return s;
+}
+
+function concat(parts: Uint8Array[]): ArrayBuffer {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out.buffer;
+}
@@ -2,27 +2,86 @@ import { App, TFile } from "obsidian";
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - runtime-only lib with no types by default
 import heic2any from "heic2any";
+import type { LonghandSettings } from "../settings";
+import { stripImageMetadata } from "./imageMetadata";
+import { cleanupImage, cleanupOptions } from "./imageCleanup";
+import { extractPages, PageImage } from "./pageDetect";
+import { createBinaryBeside } from "./heicReplace";
+import { rasterizePdf } from "./pdfPages";
+import { loadImageFromBlob } from "./canvas";
+import { convertToPng, decodeTiff, isModelReadyType, looksTiff } from "./imageFormats";
+
+// Types the canvas can encode back to themselves; anything else is redrawn as PNG
+const REDRAW_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
 
 export interface PreparedImage {
+  hash: string; // content hash of the original vault bytes
+  pages: PreparedPage[]; // one, two for a split spread (left first), or one per PDF page
+}
+
+export interface PreparedPage {
+  label?: string; // "left page" / "right page" for split spreads, "page N of M" for PDFs
   ocrBytes: ArrayBuffer;
   llmDataUrl?: string; // data URL for model input (optionally downscaled/converted)
+  llmWidth?: number; // pixel size of the model input, when it could be decoded
+  llmHeight?: number;
+  cleanupSteps?: string[]; // what image cleanup changed, when it ran
 }
 
 /**
  * Reads image bytes from the vault, optionally converts HEIC->JPEG, and optionally
  * downsamples ONLY the LLM input while keeping OCR at highest available resolution.
+ * With stripImageMetadata, EXIF/XMP/IPTC never leave the device: rotated photos are
+ * redrawn upright (re-encoded), everything else only has the metadata cut out. Files it
+ * can't be cut out of are re-encoded, and skipped when that fails too.
+ * With detectPages, the paper is cropped out of the photo and flattened, and a two-page
+ * spread becomes two pages; savePageCrops keeps them next to the original as
+ * "<name>.page.jpg" or "<name>.left.jpg"/"<name>.right.jpg", replaced on each run.
+ * With imageCleanup, OCR and model input both use the cleaned page; the debug option
+ * saves it next to the original as "<name>.longhand.jpg" (or .png), overwritten each run.
+ * PDFs are rendered page by page (only pdfPage when given, at most pageLimit pages: what is
+ * left of the run's image limit) and TIFFs decoded page by page; both skip the photo-only
+ * steps (metadata, HEIC, page detection).
+ * Other formats models don't accept (BMP, SVG) are converted to PNG. Throws with a short
+ * reason when a file can't be turned into a usable image.
  */
 export async function prepareForProcessing(
   app: App,
   file: TFile,
-  convertHeicToJpeg: boolean,
-  downscaleForLLM: boolean
+  settings: LonghandSettings,
+  pdfPage?: number,
+  pageLimit = settings.imageLimit
 ): Promise<PreparedImage> {
-  const originalBytes = await app.vault.readBinary(file);
+  const vaultBytes = await app.vault.readBinary(file);
+  const hash = await hashBytes(vaultBytes);
+  let sources: PageImage[];
+  if (file.extension.toLowerCase() === "pdf") {
+    sources = await rasterizePdf(vaultBytes, pdfPage ? [pdfPage] : undefined, pageLimit);
+  } else if (looksTiff(file.name, vaultBytes)) {
+    sources = await decodeTiff(vaultBytes, pageLimit);
+  } else {
+    sources = await photoSources(app, file, settings, vaultBytes);
+  }
+  if (!sources.length) throw new Error(pdfPage ? `no page ${pdfPage}` : "no pages");
+
+  const pages: PreparedPage[] = [];
+  for (let i = 0; i < sources.length; i++) {
+    pages.push(await preparePage(app, file, settings, sources[i], sources.length > 1 ? i + 1 : undefined));
+  }
+  return { hash, pages };
+}
+
+/**
+ * The photo as one page (metadata stripped, HEIC converted), or the pages found in it.
+ */
+async function photoSources(app: App, file: TFile, settings: LonghandSettings, vaultBytes: ArrayBuffer): Promise<PageImage[]> {
+  const { convertHeicToJpeg } = settings;
   const isHeic =
-    /\.hei[cf]$/i.test(file.name) || looksHeicByHeader(originalBytes);
+    /\.hei[cf]$/i.test(file.name) || looksHeicByHeader(vaultBytes);
+  // HEIC is always re-encoded below (to JPEG, else PNG), which leaves its metadata behind
+  const stripped = settings.stripImageMetadata && !isHeic ? await withoutMetadata(file.name, vaultBytes) : undefined;
+  const originalBytes = stripped ? await stripped.arrayBuffer() : vaultBytes;
 
-  let ocrBlob: Blob | null = null;
   let llmBlob: Blob | null = null;
 
   // Prefer converting HEIC so Azure OCR and LLM both receive broadly supported JPEG
@@ -35,19 +94,15 @@ export async function prepareForProcessing(
         quality: 0.92,
       })) as Blob;
 
-      ocrBlob = jpegBlob;
       llmBlob = jpegBlob;
     } catch (e) {
       console.warn("HEIC conversion failed; falling back to original bytes.", e);
     }
   }
 
-  if (!ocrBlob) {
-    ocrBlob = new Blob([originalBytes]);
-  }
   if (!llmBlob) {
-    // Ensure the LLM blob has a valid image MIME type for data URLs
-    const mime = guessImageMime(file.name, originalBytes);
+    // Ensure the LLM blob has a valid image MIME type for data URLs (a redrawn GIF is a PNG now)
+    const mime = stripped?.type || guessImageMime(file.name, originalBytes);
     if (mime) {
       llmBlob = new Blob([originalBytes], { type: mime });
     } else {
@@ -56,8 +111,62 @@ export async function prepareForProcessing(
     }
   }
 
+  if (!isModelReadyType(llmBlob.type)) {
+    const format = llmBlob.type || (isHeic ? "HEIC" : file.extension.toUpperCase() || "unknown");
+    try {
+      llmBlob = await convertToPng(llmBlob);
+    } catch (e) {
+      console.warn(`Could not convert ${file.name} to PNG.`, e);
+      throw new Error(isHeic ? "HEIC could not be converted; check \"Convert HEIC to JPEG\"" : `unsupported format (${format})`);
+    }
+  }
+
+  let sources: PageImage[] = [{ blob: llmBlob }];
+  if (settings.detectPages) {
+    try {
+      const found = await extractPages(llmBlob, settings.splitSpreads);
+      if (found) {
+        sources = found;
+        if (settings.savePageCrops) await savePageCrops(app, file, found);
+      }
+    } catch (e) {
+      console.warn("Page detection failed; using the whole photo.", e);
+    }
+  }
+  return sources;
+}
+
+/**
+ * Cleanup, then model input for one page. OCR gets the full-resolution page.
+ */
+async function preparePage(
+  app: App,
+  file: TFile,
+  settings: LonghandSettings,
+  source: PageImage,
+  pageNumber: number | undefined
+): Promise<PreparedPage> {
+  let pageBlob = source.blob;
+  let cleanupSteps: string[] | undefined;
+  const cleanup = cleanupOptions(settings);
+  if (cleanup) {
+    try {
+      const cleaned = await cleanupImage(pageBlob, cleanup);
+      pageBlob = cleaned.blob;
+      cleanupSteps = cleaned.steps;
+      if (settings.cleanupSaveDebugImage) {
+        const ext = cleaned.blob.type === "image/png" ? "png" : "jpg";
+        const name = `${file.basename}.longhand${pageNumber ? `-${pageNumber}` : ""}`;
+        await createBinaryBeside(app, file, name, ext, await cleaned.blob.arrayBuffer(), true);
+      }
+    } catch (e) {
+      console.warn("Image cleanup failed; using the uncleaned image.", e);
+    }
+  }
+
   // Downscale only the model input (to reduce cost); OCR remains high-res
-  if (downscaleForLLM) {
+  let llmBlob = pageBlob;
+  if (settings.downscaleForLLM) {
     try {
       llmBlob = await downscaleBlob(llmBlob, 2048, "image/jpeg", 0.9);
     } catch (e) {
@@ -72,9 +181,80 @@ export async function prepareForProcessing(
     console.warn("Failed to build data URL for LLM input.", e);
   }
 
-  const ocrBytes = await ocrBlob.arrayBuffer();
+  // Dimensions feed the token estimate used to batch model calls; unknown is fine
+  let llmWidth: number | undefined;
+  let llmHeight: number | undefined;
+  try {
+    const img = await loadImageFromBlob(llmBlob);
+    llmWidth = img.naturalWidth || img.width;
+    llmHeight = img.naturalHeight || img.height;
+  } catch {
+    // leave undefined
+  }
+
+  const ocrBytes = await pageBlob.arrayBuffer();
+
+  return { label: source.label, ocrBytes, llmDataUrl, llmWidth, llmHeight, cleanupSteps };
+}
 
-  return { ocrBytes, llmDataUrl };
+async function savePageCrops(app: App, file: TFile, pages: PageImage[]): Promise<void> {
+  for (const page of pages) {
+    const part = page.label ? page.label.split(" ")[0] : "page";
+    await createBinaryBeside(app, file, `${file.basename}.${part}`, "jpg", await page.blob.arrayBuffer(), true);
+  }
+}
+
+/**
+ * Short SHA-256 (first 16 hex chars) of raw bytes; enough to tell page revisions apart.
+ */
+export async function hashBytes(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function hashVaultFile(app: App, file: TFile): Promise<string> {
+  return hashBytes(await app.vault.readBinary(file));
+}
+
+/**
+ * Metadata-free bytes for upload. A non-upright EXIF orientation is applied via canvas, whose
+ * output carries no metadata; if that fails the stripped (possibly sideways) bytes are used.
+ * Formats the stripper doesn't handle, and files it can't parse, are always redrawn; when
+ * that fails too the image is skipped rather than uploaded with its metadata.
+ */
+async function withoutMetadata(fileName: string, bytes: ArrayBuffer): Promise<Blob> {
+  const mime = guessImageMime(fileName, bytes);
+  const type = mime ? { type: mime } : {};
+  const stripped = stripImageMetadata(bytes, mime);
+  if (stripped && stripped.orientation === 1) return new Blob([stripped.bytes], type);
+  const blob = new Blob([bytes], type);
+  try {
+    return mime && REDRAW_TYPES.has(mime) ? await redrawUpright(blob, mime) : await convertToPng(blob);
+  } catch (e) {
+    if (stripped) {
+      console.warn("Applying EXIF orientation failed; sending the image unrotated.", e);
+      return new Blob([stripped.bytes], type);
+    }
+    console.warn(`Could not remove metadata from ${fileName}.`, e);
+    throw new Error("metadata could not be removed, so it was not uploaded");
+  }
+}
+
+async function redrawUpright(blob: Blob, mime: string): Promise<Blob> {
+  // from-image applies the EXIF orientation while decoding
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const out = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mime, 0.92));
+  if (!out) throw new Error("Canvas encoding failed");
+  return out;
 }
 
 function looksHeicByHeader(bytes: ArrayBuffer): boolean {
@@ -130,22 +310,6 @@ async function downscaleBlob(
   return out ?? blob;
 }
 
-function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const url = URL.createObjectURL(blob);
-    const img = new Image();
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(img);
-    };
-    img.onerror = (e) => {
-      URL.revokeObjectURL(url);
-      reject(e);
-    };
-    img.src = url;
-  });
-}
-
 /**
  * Try to determine a suitable image MIME type from filename or header bytes.
  * Ensures data URLs look like data:image/png;base64,... instead of application/octet-stream.
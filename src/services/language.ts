@@ -0,0 +1,72 @@
+import { App, TFile } from "obsidian";
+import type { LonghandSettings } from "../settings";
+
+// Frontmatter key that overrides the language setting for one note
+export const LANGUAGE_FRONTMATTER_KEY = "longhand-language";
+
+// ISO 639-1 -> Tesseract traineddata names for the common cases
+const TESSERACT_CODES: Record<string, string> = {
+  ar: "ara",
+  cs: "ces",
+  da: "dan",
+  de: "deu",
+  el: "ell",
+  en: "eng",
+  es: "spa",
+  fi: "fin",
+  fr: "fra",
+  he: "heb",
+  hu: "hun",
+  it: "ita",
+  ja: "jpn",
+  ko: "kor",
+  nl: "nld",
+  no: "nor",
+  pl: "pol",
+  pt: "por",
+  ro: "ron",
+  ru: "rus",
+  sv: "swe",
+  tr: "tur",
+  uk: "ukr",
+  zh: "chi_sim",
+};
+
+/**
+ * Language codes for a note: the frontmatter override if present, else the setting.
+ * Returns [] for "auto" (let OCR and the model detect it). Codes are lower-cased
+ * ISO 639-1 (e.g. "de"); several may be given, primary first ("de, en").
+ */
+export function resolveNoteLanguages(app: App, file: TFile, settings: LonghandSettings): string[] {
+  const fm: any = app.metadataCache.getFileCache(file)?.frontmatter;
+  const override = fm?.[LANGUAGE_FRONTMATTER_KEY];
+  const raw = Array.isArray(override) ? override.join(",") : typeof override === "string" ? override : settings.language;
+  return parseLanguages(raw);
+}
+
+export function parseLanguages(value: string): string[] {
+  const codes = value
+    .split(/[,+\s]+/)
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+  return codes.includes("auto") ? [] : codes;
+}
+
+/**
+ * Tesseract language string ("deu+eng") for ISO codes; unknown codes are assumed to be
+ * Tesseract names already.
+ */
+export function tesseractLanguages(codes: string[]): string {
+  return codes.map((c) => TESSERACT_CODES[c] ?? c).join("+");
+}
+
+/**
+ * English display name for a code, e.g. "de" -> "German".
+ */
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,295 @@
+import OpenAI, { APIConnectionError, APIError, APIUserAbortError, AzureOpenAI } from "openai";
+import type { LlmProviderId, LonghandSettings } from "../settings";
+import { fetchWithRetry, RequestContext, RequestError, requestLimits, RequestOptions, retryAfterFrom, withRetry } from "./httpClient";
+
+/**
+ * A single vision request: system prompt, one text part, then images (data URLs).
+ * When continueFrom is set, the earlier (truncated) reply is replayed as the assistant
+ * turn and the model is asked to carry on from where it stopped.
+ * Requests are paced and retried (see httpClient); an aborted signal cancels them.
+ */
+export interface LlmRequest extends RequestContext {
+  system: string;
+  text: string;
+  imageDataUrls: string[];
+  continueFrom?: string;
+}
+
+/**
+ * finishReason "length" means the reply hit the output token limit and is incomplete.
+ * text is returned untrimmed so continuations can be joined exactly.
+ */
+export interface LlmResponse {
+  text: string;
+  finishReason: "stop" | "length" | "other";
+  usage?: TokenUsage; // as reported by the service
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const CONTINUE_PROMPT = "Continue exactly where you stopped. Do not repeat any text you already wrote.";
+
+/**
+ * Common surface for every chat/vision backend.
+ * - configError() returns a user-facing message when required settings are missing.
+ * - model is the model (or Azure deployment) name, for progress messages and metadata.
+ * - cacheKey names the endpoint, model and generation parameters, for the model output cache.
+ * - complete() rejects with a RequestError when the service refuses or keeps failing.
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly label: string;
+  readonly model: string;
+  readonly cacheKey: string;
+  configError(): string | undefined;
+  complete(req: LlmRequest): Promise<LlmResponse>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  openai: "OpenAI / OpenAI-compatible",
+  "azure-openai": "Azure OpenAI",
+  anthropic: "Anthropic",
+};
+
+export const DEFAULT_LLM_MODELS: Record<LlmProviderId, string> = {
+  openai: "gpt-4o",
+  "azure-openai": "",
+  anthropic: "claude-3-5-sonnet-latest",
+};
+
+/**
+ * Build the LLM provider selected in settings.
+ */
+export function createLlmProvider(settings: LonghandSettings): LlmProvider {
+  switch (settings.llmProvider) {
+    case "azure-openai":
+      return azureOpenAiProvider(settings);
+    case "anthropic":
+      return anthropicProvider(settings);
+    case "openai":
+    default:
+      return openAiCompatibleProvider(settings);
+  }
+}
+
+/**
+ * OpenAI, or any server speaking the OpenAI chat completions API (Ollama, LM Studio, vLLM, ...).
+ * Local servers usually ignore the key, so it is only required for the public endpoint.
+ */
+function openAiCompatibleProvider(settings: LonghandSettings): LlmProvider {
+  const baseURL = settings.llmBaseUrl || undefined;
+  const model = settings.llmModel || DEFAULT_LLM_MODELS.openai;
+  return {
+    id: "openai",
+    label: baseURL ? `${model} @ ${hostOf(baseURL)}` : "OpenAI",
+    model,
+    cacheKey: generationKey(settings, "openai", baseURL ?? "", model),
+    configError: () => (!baseURL && !settings.openaiApiKey ? "OpenAI API key not set in settings." : undefined),
+    complete: (req) => {
+      const client = new OpenAI({
+        apiKey: settings.openaiApiKey || "not-needed",
+        baseURL,
+        maxRetries: 0, // retried by withRetry instead
+        dangerouslyAllowBrowser: true,
+      });
+      return chatCompletion(client, "OpenAI", model, settings, req);
+    },
+  };
+}
+
+/**
+ * Azure OpenAI deployment (endpoint + deployment + api-version).
+ */
+function azureOpenAiProvider(settings: LonghandSettings): LlmProvider {
+  const deployment = settings.azureOpenaiDeployment;
+  return {
+    id: "azure-openai",
+    label: "Azure OpenAI",
+    model: deployment,
+    cacheKey: generationKey(settings, "azure-openai", settings.azureOpenaiEndpoint, deployment),
+    configError: () => {
+      if (!settings.azureOpenaiEndpoint || !settings.azureOpenaiApiKey) {
+        return "Azure OpenAI endpoint/key not set in settings.";
+      }
+      if (!deployment) return "Azure OpenAI deployment not set in settings.";
+      return undefined;
+    },
+    complete: (req) => {
+      const client = new AzureOpenAI({
+        endpoint: settings.azureOpenaiEndpoint,
+        apiKey: settings.azureOpenaiApiKey,
+        deployment,
+        apiVersion: settings.azureOpenaiApiVersion || "2024-06-01",
+        maxRetries: 0,
+        dangerouslyAllowBrowser: true,
+      });
+      return chatCompletion(client, "Azure OpenAI", deployment, settings, req);
+    },
+  };
+}
+
+async function chatCompletion(
+  client: OpenAI,
+  label: string,
+  model: string,
+  settings: LonghandSettings,
+  req: LlmRequest
+): Promise<LlmResponse> {
+  const userContent: any[] = [
+    {
+      type: "text",
+      text: req.text,
+    },
+    // append images after the text content
+    ...req.imageDataUrls.map((url) => ({
+      type: "image_url",
+      image_url: { url },
+    })),
+  ];
+
+  const messages: any[] = [
+    { role: "system", content: req.system },
+    { role: "user", content: userContent },
+  ];
+  if (req.continueFrom) {
+    messages.push({ role: "assistant", content: req.continueFrom }, { role: "user", content: CONTINUE_PROMPT });
+  }
+
+  const request = requestOptions(settings, label, req);
+  const resp = await withRetry(request, async () => {
+    try {
+      return await client.chat.completions.create(
+        {
+          model,
+          max_tokens: settings.llmMaxTokens,
+          ...(settings.llmTemperature != null ? { temperature: settings.llmTemperature } : {}),
+          messages,
+        },
+        { signal: req.signal }
+      );
+    } catch (e) {
+      throw fromSdkError(request.label, e);
+    }
+  });
+
+  const text =
+    resp.choices?.[0]?.message?.content?.toString?.() ??
+    (resp.choices?.[0]?.message?.content as unknown as string) ??
+    "";
+
+  const reason = resp.choices?.[0]?.finish_reason;
+  return {
+    text: text ?? "",
+    finishReason: reason === "length" ? "length" : reason === "stop" ? "stop" : "other",
+    usage: resp.usage
+      ? { inputTokens: resp.usage.prompt_tokens ?? 0, outputTokens: resp.usage.completion_tokens ?? 0 }
+      : undefined,
+  };
+}
+
+/**
+ * Anthropic Messages API with base64 image blocks.
+ */
+function anthropicProvider(settings: LonghandSettings): LlmProvider {
+  const model = settings.llmModel || DEFAULT_LLM_MODELS.anthropic;
+  // Never llmBaseUrl: that may still point at a local OpenAI-compatible server
+  const baseUrl = (settings.anthropicBaseUrl || "https://api.anthropic.com").replace(/\/+$/, "");
+  return {
+    id: "anthropic",
+    label: "Anthropic",
+    model,
+    cacheKey: generationKey(settings, "anthropic", baseUrl, model),
+    configError: () => (settings.anthropicApiKey ? undefined : "Anthropic API key not set in settings."),
+    complete: async (req) => {
+      const content: any[] = [
+        ...req.imageDataUrls.map((url) => {
+          const m = /^data:([^;]+);base64,(.*)$/s.exec(url);
+          return {
+            type: "image",
+            source: { type: "base64", media_type: m?.[1] ?? "image/jpeg", data: m?.[2] ?? "" },
+          };
+        }),
+        { type: "text", text: req.text },
+      ];
+
+      const init: RequestInit = {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": settings.anthropicApiKey,
+          "anthropic-version": "2023-06-01",
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: settings.llmMaxTokens,
+          ...(settings.llmTemperature != null ? { temperature: settings.llmTemperature } : {}),
+          system: req.system,
+          messages: [
+            { role: "user", content },
+            ...(req.continueFrom
+              ? [
+                  // Anthropic rejects assistant turns ending in whitespace
+                  { role: "assistant", content: req.continueFrom.trimEnd() },
+                  { role: "user", content: CONTINUE_PROMPT },
+                ]
+              : []),
+          ],
+        }),
+      };
+      const res = await fetchWithRetry(`${baseUrl}/v1/messages`, init, requestOptions(settings, "Anthropic", req));
+
+      const data = await res.json();
+      const text = (data?.content ?? [])
+        .filter((b: any) => b?.type === "text")
+        .map((b: any) => String(b.text ?? ""))
+        .join("");
+      const reason = data?.stop_reason;
+      return {
+        text,
+        finishReason: reason === "max_tokens" ? "length" : reason === "end_turn" ? "stop" : "other",
+        usage: data?.usage
+          ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+          : undefined,
+      };
+    },
+  };
+}
+
+function generationKey(settings: LonghandSettings, id: LlmProviderId, endpoint: string, model: string): string {
+  return [id, endpoint, model, settings.llmMaxTokens, settings.llmTemperature ?? "default"].join("|");
+}
+
+function requestOptions(settings: LonghandSettings, label: string, req: LlmRequest): RequestOptions {
+  return { label, ...requestLimits(settings), signal: req.signal, onRetry: req.onRetry };
+}
+
+/**
+ * Map OpenAI SDK errors onto RequestError so they are retried/reported like fetch failures.
+ */
+function fromSdkError(label: string, e: unknown): unknown {
+  if (e instanceof APIUserAbortError) return e;
+  if (e instanceof APIConnectionError) return RequestError.network(label, e);
+  if (e instanceof APIError && e.status) {
+    const detail = (e.error as any)?.message;
+    return RequestError.fromStatus(
+      label,
+      e.status,
+      "",
+      typeof detail === "string" ? detail : undefined,
+      retryAfterFrom((name) => e.headers?.[name])
+    );
+  }
+  return e;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
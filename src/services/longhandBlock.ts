@@ -0,0 +1,333 @@
+// Service: longhandBlock
+// Wraps inserted transcriptions in invisible Obsidian comments so re-runs can find them:
+//
+//   %% longhand:start id=k3j9x2ab sources=[{"path":"img/p1.jpg","hash":"9f86d081884c7d65"}] %%
+//   ## Longhand transcription (2024-05-01 10:00:00)
+//
+//   ...transcription...
+//   %% longhand:end id=k3j9x2ab %%
+//
+// Only text between the markers is ever rewritten; everything outside belongs to the user.
+
+export interface LonghandSource {
+  path: string;
+  hash: string;
+  page?: number; // one page of a PDF ("#page=N" embed); missing = the whole file
+}
+
+export interface LonghandBlock {
+  id: string;
+  sources: LonghandSource[];
+  start: number; // offset of the start marker
+  end: number; // offset just past the end marker line
+  bodyEnd: number; // offset of the end marker (where appended text goes)
+}
+
+export type RerunMode = "replace" | "new-only";
+
+const START_RE = /^%% longhand:start id=([A-Za-z0-9_-]+)(?: sources=(\[.*\]))? %%[ \t]*$/gm;
+
+/**
+ * Find all Longhand blocks in a note, in document order. Blocks without a matching
+ * end marker (e.g. partially deleted by hand) are ignored.
+ */
+export function findLonghandBlocks(content: string): LonghandBlock[] {
+  const blocks: LonghandBlock[] = [];
+  START_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = START_RE.exec(content)) !== null) {
+    const id = m[1];
+    const endMarker = `%% longhand:end id=${id} %%`;
+    const bodyEnd = content.indexOf(endMarker, m.index + m[0].length);
+    if (bodyEnd === -1) continue;
+
+    let end = bodyEnd + endMarker.length;
+    if (content[end] === "\n") end++;
+
+    blocks.push({ id, sources: parseSources(m[2]), start: m.index, end, bodyEnd });
+    START_RE.lastIndex = end;
+  }
+  return blocks;
+}
+
+/**
+ * Map of image key (see coverageKey) -> content hash for every image already covered by a block.
+ */
+export function coveredSources(blocks: LonghandBlock[]): Map<string, string> {
+  const covered = new Map<string, string>();
+  for (const b of blocks) {
+    for (const s of b.sources) covered.set(coverageKey(s), s.hash);
+  }
+  return covered;
+}
+
+/**
+ * The path, plus "#page=N" for one page of a PDF, the same as the note's image keys: pages
+ * of one PDF share its hash, so they are told apart by page.
+ */
+export function coverageKey(source: LonghandSource): string {
+  return source.page ? `${source.path}#page=${source.page}` : source.path;
+}
+
+export function newBlockId(): string {
+  return Math.random().toString(36).slice(2, 10).padEnd(8, "0");
+}
+
+export function renderLonghandBlock(id: string, sources: LonghandSource[], heading: string | undefined, text: string): string {
+  return [
+    startMarker(id, sources),
+    ...(heading ? [heading, ""] : []),
+    text.trim(),
+    `%% longhand:end id=${id} %%`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Where a new block goes when the note has none yet.
+ * - prepend: top of the note, followed by a horizontal rule (original behavior)
+ * - append: end of the note
+ * - heading: under the named heading (any level), creating "## <heading>" at the end if missing
+ * - offset: at a character offset (e.g. the editor cursor), moved to the start of the next line
+ */
+export type Placement =
+  | { kind: "prepend" }
+  | { kind: "append" }
+  | { kind: "heading"; heading: string }
+  | { kind: "offset"; offset: number };
+
+/**
+ * Write a transcription into note content.
+ * - replace: the first existing block is rewritten in place; otherwise a new block is placed.
+ * - new-only: the text is appended inside the first existing block and its sources are merged;
+ *   otherwise a new block is placed.
+ */
+export function upsertLonghandBlock(
+  content: string,
+  opts: { mode: RerunMode; placement: Placement; heading?: string; text: string; sources: LonghandSource[] }
+): string {
+  const existing = findLonghandBlocks(content)[0];
+
+  if (!existing) {
+    const block = renderLonghandBlock(newBlockId(), opts.sources, opts.heading, opts.text);
+    return placeBlock(content, block, opts.placement);
+  }
+
+  if (opts.mode === "replace") {
+    const block = renderLonghandBlock(existing.id, opts.sources, opts.heading, opts.text);
+    return content.slice(0, existing.start) + block + content.slice(existing.end);
+  }
+
+  // new-only: keep the existing body (including hand edits) and append below it
+  const merged = new Map(existing.sources.map((s) => [coverageKey(s), s]));
+  for (const s of opts.sources) merged.set(coverageKey(s), s);
+  const sources = Array.from(merged.values());
+
+  const startLineEnd = content.indexOf("\n", existing.start);
+  const body = content.slice(startLineEnd + 1, existing.bodyEnd).replace(/\s+$/, "");
+  return (
+    content.slice(0, existing.start) +
+    `${startMarker(existing.id, sources)}\n${body}\n\n${opts.text.trim()}\n` +
+    content.slice(existing.bodyEnd)
+  );
+}
+
+/**
+ * Targeted mode (images picked by cursor or selection): the block covering exactly these
+ * images is rewritten in place; otherwise a new block is placed (e.g. right after the
+ * selection), leaving every other block alone.
+ */
+export function upsertTargetedBlock(
+  content: string,
+  opts: { placement: Placement; heading?: string; text: string; sources: LonghandSource[] }
+): string {
+  const key = (sources: LonghandSource[]) => sources.map(coverageKey).sort().join("\n");
+  const wanted = key(opts.sources);
+  const same = findLonghandBlocks(content).find((b) => key(b.sources) === wanted);
+  if (same) {
+    const block = renderLonghandBlock(same.id, opts.sources, opts.heading, opts.text);
+    return content.slice(0, same.start) + block + content.slice(same.end);
+  }
+  return placeBlock(content, renderLonghandBlock(newBlockId(), opts.sources, opts.heading, opts.text), opts.placement);
+}
+
+/**
+ * Per-image mode: one block per image, directly below that image's embed.
+ * An embed's own block is the single-image block for that file among the blocks right
+ * below it, so a file embedded twice (or a PDF embedded page by page) keeps one block per
+ * embed. Blocks that cover several images are never rewritten here.
+ * Entries without a usable embed position are appended at the end of the note.
+ */
+export function upsertPerImageBlocks(
+  content: string,
+  entries: { source: LonghandSource; text: string; embed?: { start: number; end: number } }[]
+): string {
+  const blocks = findLonghandBlocks(content);
+  const ops: { start: number; end: number; newText: string; order: number }[] = [];
+  const trailing: string[] = [];
+  const claimed = new Set<string>(); // block ids already rewritten for an earlier entry
+  const usedEmbeds = new Set<number>(); // embed ends already placed, for files embedded twice
+  const ownsAlone = (b: LonghandBlock, source: LonghandSource) =>
+    !claimed.has(b.id) && b.sources.length === 1 && coverageKey(b.sources[0]) === coverageKey(source);
+
+  entries.forEach((entry, order) => {
+    const embedEnd = locateEmbedEnd(content, entry.source.path, entry.embed, usedEmbeds);
+    if (embedEnd !== undefined) usedEmbeds.add(embedEnd);
+    const at = embedEnd === undefined ? undefined : nextLineStart(content, embedEnd);
+    const below = at === undefined ? [] : blocksBelow(content, blocks, at);
+    const owned = at === undefined ? blocks.find((b) => ownsAlone(b, entry.source)) : below.find((b) => ownsAlone(b, entry.source));
+    if (owned) {
+      claimed.add(owned.id);
+      const block = renderLonghandBlock(owned.id, [entry.source], undefined, entry.text);
+      ops.push({ start: owned.start, end: owned.end, newText: block, order });
+      return;
+    }
+
+    const block = renderLonghandBlock(newBlockId(), [entry.source], undefined, entry.text);
+    if (at === undefined) {
+      trailing.push(block);
+      return;
+    }
+    // After the blocks of earlier embeds on the same line
+    const after = [...below].reverse().find((b) => claimed.has(b.id))?.end ?? at;
+    const lead = after === content.length && !content.endsWith("\n") ? "\n" : "";
+    ops.push({ start: after, end: after, newText: `${lead}${block}`, order });
+  });
+
+  // Apply edits from right to left to keep offsets valid; inserts at one offset (embeds on
+  // one line) go in reverse entry order so they end up in entry order
+  ops.sort((a, b) => b.start - a.start || b.order - a.order);
+  let updated = content;
+  for (const op of ops) {
+    updated = updated.slice(0, op.start) + op.newText + updated.slice(op.end);
+  }
+  for (const block of trailing) {
+    updated = placeBlock(updated, block, { kind: "append" });
+  }
+  return updated;
+}
+
+/**
+ * The blocks that follow offset with nothing but whitespace between them, in order.
+ */
+function blocksBelow(content: string, blocks: LonghandBlock[], offset: number): LonghandBlock[] {
+  const below: LonghandBlock[] = [];
+  let cursor = offset;
+  for (const b of blocks) {
+    if (b.start < cursor) continue;
+    if (content.slice(cursor, b.start).trim()) break;
+    below.push(b);
+    cursor = b.end;
+  }
+  return below;
+}
+
+/**
+ * End offset of an image's embed. Cached positions can be stale (e.g. right after HEIC
+ * links were rewritten), so they are only trusted when the text there still names the file;
+ * otherwise the first embed mentioning the file name that isn't in used is taken.
+ */
+function locateEmbedEnd(
+  content: string,
+  path: string,
+  embed: { start: number; end: number } | undefined,
+  used: Set<number>
+): number | undefined {
+  const name = path.split("/").pop() ?? path;
+  const mentions = (s: string) => {
+    let decoded = s;
+    try {
+      decoded = decodeURIComponent(s);
+    } catch {
+      // keep raw text
+    }
+    return decoded.includes(name);
+  };
+
+  if (embed && embed.end <= content.length && !used.has(embed.end)) {
+    const text = content.slice(embed.start, embed.end);
+    if (text.startsWith("!") && mentions(text)) return embed.end;
+  }
+
+  const re = /!\[\[[^\]\n]+\]\]|!\[[^\]\n]*\]\([^)\n]+\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content)) !== null) {
+    const end = m.index + m[0].length;
+    if (!used.has(end) && mentions(m[0])) return end;
+  }
+  return undefined;
+}
+
+function placeBlock(content: string, block: string, placement: Placement): string {
+  switch (placement.kind) {
+    case "append": {
+      const body = content.replace(/\s+$/, "");
+      return body ? `${body}\n\n${block}` : block;
+    }
+    case "heading": {
+      const at = findHeadingBodyStart(content, placement.heading);
+      if (at === undefined) {
+        const body = content.replace(/\s+$/, "");
+        return `${body ? `${body}\n\n` : ""}## ${placement.heading}\n\n${block}`;
+      }
+      return content.slice(0, at) + `\n${block}` + content.slice(at);
+    }
+    case "offset": {
+      const at = Math.min(content.length, Math.max(0, placement.offset));
+      const lineStart = at === 0 || content[at - 1] === "\n" ? at : nextLineStart(content, at);
+      const lead = lineStart === content.length && content.length && !content.endsWith("\n") ? "\n" : "";
+      return content.slice(0, lineStart) + `${lead}${block}` + content.slice(lineStart);
+    }
+    case "prepend":
+    default: {
+      // Stay below the frontmatter so it remains the first thing in the note
+      const at = frontmatterEnd(content);
+      return `${content.slice(0, at)}${block}\n---\n\n${content.slice(at)}`;
+    }
+  }
+}
+
+/**
+ * Offset just after a leading YAML frontmatter block, or 0 when there is none.
+ */
+function frontmatterEnd(content: string): number {
+  const m = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/.exec(content);
+  return m ? m[0].length : 0;
+}
+
+/**
+ * Offset just after the line of the named heading (case-insensitive, any level), or undefined.
+ */
+function findHeadingBodyStart(content: string, heading: string): number | undefined {
+  const wanted = heading.trim().replace(/^#+\s*/, "").toLowerCase();
+  const re = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/gm;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content)) !== null) {
+    if (m[2].trim().toLowerCase() === wanted) {
+      return nextLineStart(content, m.index + m[0].length);
+    }
+  }
+  return undefined;
+}
+
+function nextLineStart(content: string, offset: number): number {
+  const nl = content.indexOf("\n", offset);
+  return nl === -1 ? content.length : nl + 1;
+}
+
+function startMarker(id: string, sources: LonghandSource[]): string {
+  return `%% longhand:start id=${id} sources=${JSON.stringify(sources)} %%`;
+}
+
+function parseSources(raw: string | undefined): LonghandSource[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((s: any) => typeof s?.path === "string" && typeof s?.hash === "string")
+      .map((s: any) => (typeof s.page === "number" ? { path: s.path, hash: s.hash, page: s.page } : { path: s.path, hash: s.hash }));
+  } catch {
+    return [];
+  }
+}
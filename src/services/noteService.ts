@@ -1,13 +1,20 @@
 import { App, TFile, normalizePath } from "obsidian";
+import { pdfPageFromSubpath } from "./pdfPages";
 
 export interface NoteImageRef {
   file: TFile;
   alt?: string;
+  position?: { start: number; end: number }; // offsets of the embed/link in the note
+  pdfPage?: number; // from a "#page=N" suffix; undefined = every page
 }
 
+// Images plus PDFs (each PDF page is rasterized and handled like an image)
+const SOURCE_EXT_RE = /\.(png|jpe?g|webp|gif|bmp|svg|tif?f|heic|heif|pdf)$/i;
+
 /**
  * Collect image embeds from a note, preserving order of appearance.
- * Supports wiki-style embeds ![[img.png]] and markdown images ![alt](img.png).
+ * Supports wiki-style embeds ![[img.png]] and markdown images ![alt](img.png), and PDFs
+ * (![[scan.pdf]], or ![[scan.pdf#page=2]] for a single page).
  */
 export async function collectImagesFromNote(app: App, file: TFile, limit: number): Promise<NoteImageRef[]> {
   const cache = app.metadataCache.getFileCache(file);
@@ -18,26 +25,10 @@ export async function collectImagesFromNote(app: App, file: TFile, limit: number
   const seen = new Set<string>();
 
   for (const e of embeds) {
-    const rawLink = (e as any).link as string | undefined;
-    if (!rawLink) continue;
-
-    // Ignore external URLs
-    if (/^[a-z]+:\/\//i.test(rawLink)) continue;
-
-    // Strip size pipes like "image.png|100x100"
-    const linkNoPipe = rawLink.split("|")[0].trim();
-
-    // Only accept likely image extensions
-    if (!/\.(png|jpe?g|webp|gif|bmp|tif?f|heic|heif)$/i.test(linkNoPipe)) continue;
-
-    // Resolve to a vault file relative to the note
-    const resolved = app.metadataCache.getFirstLinkpathDest(linkNoPipe, file.path);
-    if (resolved && resolved instanceof TFile) {
-      results.push({
-        file: resolved,
-        alt: (e as any).displayText || undefined,
-      });
-      seen.add(resolved.path);
+    const ref = resolveImageLink(app, file, (e as any).link, (e as any).displayText, offsetsOf(e));
+    if (ref) {
+      results.push(ref);
+      seen.add(imageKey(ref));
     }
 
     if (results.length >= limit) break;
@@ -45,26 +36,10 @@ export async function collectImagesFromNote(app: App, file: TFile, limit: number
 
   // Also scan markdown links that resolve to images
   for (const l of links) {
-    const rawLink = (l as any).link as string | undefined;
-    if (!rawLink) continue;
-
-    // Ignore external URLs
-    if (/^[a-z]+:\/\//i.test(rawLink)) continue;
-
-    // Strip size pipes like "image.png|100x100"
-    const linkNoPipe = rawLink.split("|")[0].trim();
-
-    // Only accept likely image extensions
-    if (!/\.(png|jpe?g|webp|gif|bmp|tif?f|heic|heif)$/i.test(linkNoPipe)) continue;
-
-    // Resolve to a vault file relative to the note
-    const resolved = app.metadataCache.getFirstLinkpathDest(linkNoPipe, file.path);
-    if (resolved && resolved instanceof TFile && !seen.has(resolved.path)) {
-      results.push({
-        file: resolved,
-        alt: (l as any).displayText || undefined,
-      });
-      seen.add(resolved.path);
+    const ref = resolveImageLink(app, file, (l as any).link, (l as any).displayText, offsetsOf(l));
+    if (ref && !seen.has(imageKey(ref))) {
+      results.push(ref);
+      seen.add(imageKey(ref));
     }
 
     if (results.length >= limit) break;
@@ -72,3 +47,104 @@ export async function collectImagesFromNote(app: App, file: TFile, limit: number
 
   return results;
 }
+
+/**
+ * Image embeds and links parsed from text, with offsets into that text. For editor content,
+ * which can be ahead of the metadata cache while edits are unsaved.
+ */
+export function collectImagesFromText(app: App, file: TFile, text: string): NoteImageRef[] {
+  const results: NoteImageRef[] = [];
+  const re = /!?\[\[([^\]\n]+)\]\]|!?\[([^\]\n]*)\]\(([^)\n]+)\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    const position = { start: m.index, end: m.index + m[0].length };
+    const ref =
+      m[1] !== undefined
+        ? resolveImageLink(app, file, m[1], m[1].split("|")[1], position)
+        : resolveImageLink(app, file, markdownDestination(m[3]), m[2], position);
+    if (ref) results.push(ref);
+  }
+  return results;
+}
+
+/**
+ * Refs whose embed overlaps the note range [from, to]. A collapsed range (a cursor) picks
+ * the embed it sits in or touches.
+ */
+export function imagesInRange(refs: NoteImageRef[], from: number, to: number): NoteImageRef[] {
+  return refs.filter((r) => {
+    if (!r.position) return false;
+    return from === to
+      ? r.position.start <= from && from <= r.position.end
+      : r.position.start < to && r.position.end > from;
+  });
+}
+
+/**
+ * Identity of an embedded source: its path, plus the page for a single PDF page.
+ */
+export function imageKey(ref: NoteImageRef): string {
+  return sourceKey(ref.file, ref.pdfPage);
+}
+
+export function isImageSource(file: TFile): boolean {
+  return SOURCE_EXT_RE.test(file.path);
+}
+
+/**
+ * The vault image a link points to, or undefined for external URLs, non-image files and
+ * links that don't resolve.
+ */
+function resolveImageLink(
+  app: App,
+  file: TFile,
+  rawLink: string | undefined,
+  displayText: string | undefined,
+  position: NoteImageRef["position"]
+): NoteImageRef | undefined {
+  if (!rawLink) return undefined;
+
+  // Ignore external URLs
+  if (/^[a-z]+:\/\//i.test(rawLink)) return undefined;
+
+  // Strip size pipes like "image.png|100x100" and subpaths like "scan.pdf#page=2"
+  const [linkPath, subpath] = splitSubpath(rawLink.split("|")[0].trim());
+
+  // Only accept likely image extensions
+  if (!SOURCE_EXT_RE.test(linkPath)) return undefined;
+
+  // Resolve to a vault file relative to the note
+  const resolved = app.metadataCache.getFirstLinkpathDest(linkPath, file.path);
+  if (!resolved || !(resolved instanceof TFile)) return undefined;
+  const pdfPage = resolved.extension.toLowerCase() === "pdf" ? pdfPageFromSubpath(subpath) : undefined;
+  return { file: resolved, alt: displayText || undefined, position, pdfPage };
+}
+
+/**
+ * Link path of a markdown link destination: angle brackets and a title removed, %-escapes decoded.
+ */
+function markdownDestination(raw: string): string {
+  const trimmed = raw.trim();
+  const dest = trimmed.startsWith("<") ? trimmed.slice(1).split(">")[0] : trimmed.split(/\s+/)[0];
+  try {
+    return decodeURIComponent(dest);
+  } catch {
+    return dest;
+  }
+}
+
+function splitSubpath(link: string): [string, string | undefined] {
+  const hash = link.indexOf("#");
+  return hash < 0 ? [link, undefined] : [link.slice(0, hash), link.slice(hash)];
+}
+
+// Different pages of one PDF count as different sources
+function sourceKey(file: TFile, pdfPage: number | undefined): string {
+  return pdfPage ? `${file.path}#page=${pdfPage}` : file.path;
+}
+
+function offsetsOf(ref: any): { start: number; end: number } | undefined {
+  const pos = ref?.position;
+  if (pos?.start?.offset == null || pos?.end?.offset == null) return undefined;
+  return { start: pos.start.offset, end: pos.end.offset };
+}
@@ -1,61 +1,507 @@
+import { App, normalizePath } from "obsidian";
+import { createWorker, Worker as TesseractWorker } from "tesseract.js";
+import type { LonghandSettings, OcrProviderId } from "../settings";
+import { fetchWithRetry, RequestContext, requestLimits, RequestOptions, sleep } from "./httpClient";
+import { tesseractLanguages } from "./language";
+
+/**
+ * Common surface for every OCR backend.
+ * - configError() returns a user-facing message when required settings are missing.
+ * - recognize() returns the text with its layout (empty when nothing was found).
+ * - cacheKey identifies the provider plus any settings that change its output.
+ * - dispose() releases long-lived resources (e.g. the local Tesseract worker).
+ * - Network providers go through fetchWithRetry (pacing, retries); failures reject with a
+ *   RequestError. An aborted ctx.signal rejects recognize() as well.
+ */
+export interface OcrProvider {
+  readonly id: OcrProviderId;
+  readonly label: string;
+  readonly cacheKey: string;
+  configError(): string | undefined;
+  recognize(imageBytes: ArrayBuffer, ctx?: RequestContext): Promise<OcrResult>;
+  dispose?(): Promise<void>;
+}
+
+/**
+ * OCR output in reading order: blocks -> lines -> words.
+ * - text is the plain transcription: lines joined by newlines, blocks by blank lines.
+ * - polygon is a flat [x1, y1, x2, y2, ...] list in image pixels, starting top-left.
+ * - confidence is 0..1, undefined when the provider doesn't report it.
+ */
+export interface OcrResult {
+  text: string;
+  blocks: OcrBlock[];
+}
+
+export interface OcrBlock {
+  lines: OcrLine[];
+}
+
+export interface OcrLine {
+  text: string;
+  polygon?: number[];
+  words: OcrWord[];
+}
+
+export interface OcrWord {
+  text: string;
+  polygon?: number[];
+  confidence?: number;
+}
+
+/**
+ * Wrap plain text (no layout information) as a result, one block of lines.
+ */
+export function ocrResultFromText(text: string): OcrResult {
+  const lines = text
+    .trim()
+    .split(/\r?\n/)
+    .map((l) => ({ text: l, words: [] }));
+  return toResult(text.trim() ? [{ lines }] : []);
+}
+
+export const OCR_PROVIDER_LABELS: Record<OcrProviderId, string> = {
+  "azure-image-analysis": "Azure Image Analysis 4.0",
+  "azure-read": "Azure Read v3.2",
+  "google-vision": "Google Cloud Vision",
+  tesseract: "Tesseract (local, offline)",
+};
+
+/**
+ * Build the OCR provider selected in settings. languages are ISO 639-1 codes, primary first;
+ * empty means detect automatically. They are part of cacheKey.
+ */
+export function createOcrProvider(app: App, settings: LonghandSettings, languages: string[] = []): OcrProvider {
+  const label = OCR_PROVIDER_LABELS[settings.ocrProvider] ?? settings.ocrProvider;
+  const langKey = languages.length ? `:${languages.join("+")}` : "";
+  // Azure takes one language; with several, its auto-detection handles mixed pages better
+  const azureLanguage = languages.length === 1 ? languages[0] : undefined;
+  switch (settings.ocrProvider) {
+    case "azure-read":
+      return {
+        id: "azure-read",
+        label,
+        cacheKey: `azure-read${langKey}`,
+        configError: () => azureConfigError(settings),
+        recognize: (bytes, ctx) =>
+          azureReadOcr(bytes, settings.azureEndpoint, settings.azureApiKey, azureLanguage, {
+            label: "Azure Read",
+            ...requestLimits(settings),
+            ...ctx,
+          }),
+      };
+    case "google-vision":
+      return {
+        id: "google-vision",
+        label,
+        cacheKey: `google-vision${langKey}`,
+        configError: () => (settings.googleVisionApiKey ? undefined : "Google Cloud Vision API key not set in settings."),
+        recognize: (bytes, ctx) =>
+          googleVisionOcr(bytes, settings.googleVisionApiKey, languages, {
+            label: "Google Vision OCR",
+            ...requestLimits(settings),
+            ...ctx,
+          }),
+      };
+    case "tesseract":
+      // An explicit language replaces the configured Tesseract languages
+      return new TesseractOcrProvider(
+        app,
+        languages.length ? tesseractLanguages(languages) : settings.tesseractLanguages,
+        settings.tesseractAssetsPath
+      );
+    case "azure-image-analysis":
+    default:
+      return {
+        id: "azure-image-analysis",
+        label: OCR_PROVIDER_LABELS["azure-image-analysis"],
+        cacheKey: `azure-image-analysis${langKey}`,
+        configError: () => azureConfigError(settings),
+        recognize: (bytes, ctx) =>
+          azureOcr(bytes, settings.azureEndpoint, settings.azureApiKey, azureLanguage, {
+            label: "Azure OCR",
+            ...requestLimits(settings),
+            ...ctx,
+          }),
+      };
+  }
+}
+
+function azureConfigError(settings: LonghandSettings): string | undefined {
+  if (!settings.azureEndpoint || !settings.azureApiKey) {
+    return "Azure OCR endpoint/key not set in settings.";
+  }
+  return undefined;
+}
+
+/**
+ * Azure Image Analysis 4.0 (synchronous "read" feature). Without a language the service
+ * detects it.
+ */
 export async function azureOcr(
   imageBytes: ArrayBuffer,
   endpoint: string,
-  apiKey: string
-): Promise<string> {
+  apiKey: string,
+  language: string | undefined,
+  request: RequestOptions = { label: "Azure OCR" }
+): Promise<OcrResult> {
+  if (!endpoint || !apiKey) {
+    throw new Error("Azure OCR endpoint or key not set.");
+  }
+
+  const url =
+    endpoint.replace(/\/+$/, "") +
+    "/computervision/imageanalysis:analyze?features=read&model-version=latest" +
+    (language ? `&language=${encodeURIComponent(language)}` : "") +
+    "&gender-neutral-caption=false&api-version=2023-10-01";
+
+  const res = await fetchWithRetry(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Ocp-Apim-Subscription-Key": apiKey,
+        "Content-Type": "application/octet-stream",
+      },
+      body: imageBytes,
+    },
+    request
+  );
+
+  const data = await res.json();
+
+  // Defensive parsing: prefer readResult.blocks -> lines -> words
+  const blocks: any[] = data?.readResult?.blocks ?? [];
+  if (blocks.length) {
+    return toResult(
+      blocks.map((b) => ({
+        lines: (b.lines ?? []).map((l: any) => ({
+          text: String(l.text ?? ""),
+          polygon: pointsToPolygon(l.boundingPolygon),
+          words: (l.words ?? []).map((w: any) => ({
+            text: String(w.text ?? ""),
+            polygon: pointsToPolygon(w.boundingPolygon),
+            confidence: typeof w.confidence === "number" ? w.confidence : undefined,
+          })),
+        })),
+      }))
+    );
+  }
+
+  // Fallbacks sometimes seen in other API shapes
+  if (Array.isArray(data?.readResult?.lines)) {
+    return ocrResultFromText(data.readResult.lines.map((l: any) => l.text ?? "").join("\n"));
+  }
+  return ocrResultFromText(String(data?.readResult?.content ?? ""));
+}
+
+/**
+ * Azure Computer Vision Read v3.2 (asynchronous operation API).
+ * - POST the image, then poll the Operation-Location URL until it settles; polls count
+ *   against the same request pacing.
+ * - Gives up after ~60s of polling.
+ * - language is a hint; the service detects (and handles mixed) languages without it.
+ */
+export async function azureReadOcr(
+  imageBytes: ArrayBuffer,
+  endpoint: string,
+  apiKey: string,
+  language: string | undefined,
+  request: RequestOptions = { label: "Azure Read" }
+): Promise<OcrResult> {
   if (!endpoint || !apiKey) {
     throw new Error("Azure OCR endpoint or key not set.");
   }
 
   const url =
     endpoint.replace(/\/+$/, "") +
-    "/computervision/imageanalysis:analyze?features=read&model-version=latest&language=en&gender-neutral-caption=false&api-version=2023-10-01";
+    "/vision/v3.2/read/analyze?readingOrder=natural" +
+    (language ? `&language=${encodeURIComponent(language)}` : "");
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Ocp-Apim-Subscription-Key": apiKey,
-      "Content-Type": "application/octet-stream",
+  const res = await fetchWithRetry(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Ocp-Apim-Subscription-Key": apiKey,
+        "Content-Type": "application/octet-stream",
+      },
+      body: imageBytes,
     },
-    body: imageBytes,
-  });
+    request
+  );
+
+  const operationUrl = res.headers.get("Operation-Location");
+  if (!operationUrl) {
+    throw new Error("Azure Read did not return an Operation-Location header.");
+  }
+
+  const deadline = Date.now() + 60_000;
+  while (Date.now() < deadline) {
+    await sleep(1000, request.signal);
 
-  if (!res.ok) {
-    const msg = `Azure OCR failed: ${res.status} ${res.statusText}`;
-    throw new Error(msg);
+    const poll = await fetchWithRetry(operationUrl, { headers: { "Ocp-Apim-Subscription-Key": apiKey } }, request);
+
+    const data = await poll.json();
+    const status = String(data?.status ?? "").toLowerCase();
+    if (status === "failed") {
+      throw new Error("Azure Read operation failed.");
+    }
+    if (status !== "succeeded") continue;
+
+    // One block per page; v3.2 boxes are already flat 8-number polygons
+    const pages: any[] = data?.analyzeResult?.readResults ?? [];
+    return toResult(
+      pages.map((p) => ({
+        lines: (p.lines ?? []).map((l: any) => ({
+          text: String(l.text ?? ""),
+          polygon: l.boundingBox,
+          words: (l.words ?? []).map((w: any) => ({
+            text: String(w.text ?? ""),
+            polygon: w.boundingBox,
+            confidence: typeof w.confidence === "number" ? w.confidence : undefined,
+          })),
+        })),
+      }))
+    );
   }
 
+  throw new Error("Azure Read timed out waiting for the operation result.");
+}
+
+/**
+ * Google Cloud Vision DOCUMENT_TEXT_DETECTION (tuned for dense text / handwriting).
+ * languageHints may list several languages; empty lets the service detect them.
+ */
+export async function googleVisionOcr(
+  imageBytes: ArrayBuffer,
+  apiKey: string,
+  languageHints: string[],
+  request: RequestOptions = { label: "Google Vision OCR" }
+): Promise<OcrResult> {
+  if (!apiKey) {
+    throw new Error("Google Cloud Vision API key not set.");
+  }
+
+  const url = `https://vision.googleapis.com/v1/images:annotate?key=${encodeURIComponent(apiKey)}`;
+  const res = await fetchWithRetry(
+    url,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: { content: arrayBufferToBase64(imageBytes) },
+            features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+            ...(languageHints.length ? { imageContext: { languageHints } } : {}),
+          },
+        ],
+      }),
+    },
+    request
+  );
+
   const data = await res.json();
+  const first = data?.responses?.[0];
+  if (first?.error?.message) {
+    throw new Error(`Google Vision OCR failed: ${first.error.message}`);
+  }
+  const pages: any[] = first?.fullTextAnnotation?.pages ?? [];
+  if (!pages.length) return ocrResultFromText(String(first?.fullTextAnnotation?.text ?? ""));
+  return toResult(pages.flatMap((p) => (p.blocks ?? []).map(googleBlock)));
+}
 
-  // Defensive parsing: prefer readResult.blocks -> lines -> words
-  try {
-    if (data?.readResult?.blocks) {
-      const text = data.readResult.blocks
-        .flatMap((b: any) =>
-          (b.lines ?? []).flatMap((l: any) =>
-            (l.words ?? []).map((w: any) => w.text)
-          )
-        )
-        .join(" ")
-        .trim();
-      if (text) return text;
+/**
+ * Vision has no line level: words carry their symbols, and the last symbol's detected break
+ * tells whether a line ends after the word.
+ */
+function googleBlock(block: any): OcrBlock {
+  const lines: OcrLine[] = [];
+  for (const paragraph of block.paragraphs ?? []) {
+    let words: OcrWord[] = [];
+    const flush = () => {
+      if (!words.length) return;
+      lines.push({
+        text: words.map((w) => w.text).join(" "),
+        polygon: boundsOf(words.map((w) => w.polygon)),
+        words,
+      });
+      words = [];
+    };
+    for (const word of paragraph.words ?? []) {
+      const symbols: any[] = word.symbols ?? [];
+      const breakType = symbols[symbols.length - 1]?.property?.detectedBreak?.type;
+      words.push({
+        text: symbols.map((sym) => sym.text ?? "").join("") + (breakType === "HYPHEN" ? "-" : ""),
+        polygon: pointsToPolygon(word.boundingBox?.vertices),
+        confidence: typeof word.confidence === "number" ? word.confidence : undefined,
+      });
+      if (breakType === "EOL_SURE_SPACE" || breakType === "LINE_BREAK" || breakType === "HYPHEN") flush();
+    }
+    flush();
+  }
+  return { lines };
+}
+
+/**
+ * Local OCR via Tesseract.js (WASM). No image data leaves the device.
+ * - One worker is created lazily and reused for the whole run.
+ * - Everything is loaded from the vault folder at assetsPath: worker.min.js, the
+ *   tesseract-core files and *.traineddata(.gz). Nothing is ever downloaded; a missing
+ *   folder or worker.min.js is a configuration error (see configError).
+ * - Recognition can't be interrupted, so aborting terminates the worker instead.
+ */
+class TesseractOcrProvider implements OcrProvider {
+  readonly id = "tesseract" as const;
+  readonly label = OCR_PROVIDER_LABELS.tesseract;
+  private worker?: Promise<TesseractWorker>;
+
+  get cacheKey(): string {
+    return `tesseract:${this.langList().join("+")}`;
+  }
+
+  constructor(
+    private app: App,
+    private languages: string,
+    private assetsPath: string
+  ) {}
+
+  /**
+   * The worker, core and language data are loaded from the assets folder only, never from a
+   * CDN, so a missing folder is a configuration error rather than a silent download.
+   */
+  configError(): string | undefined {
+    if (!this.langList().length) return "Tesseract languages not set in settings.";
+    if (!this.assetsPath.trim()) return "Tesseract assets folder not set in settings.";
+    const folder = normalizePath(this.assetsPath.trim());
+    if (!this.app.vault.getAbstractFileByPath(`${folder}/worker.min.js`)) {
+      return `Tesseract assets folder "${folder}" has no worker.min.js.`;
     }
+    return undefined;
+  }
 
-    // Fallbacks sometimes seen in other API shapes
-    if (data?.readResult?.content) {
-      return String(data.readResult.content).trim();
+  async recognize(imageBytes: ArrayBuffer, ctx?: RequestContext): Promise<OcrResult> {
+    const signal = ctx?.signal;
+    signal?.throwIfAborted();
+    const worker = await this.getWorker();
+    const onAbort = () => void this.dispose();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      const { data } = await worker.recognize(new Blob([imageBytes]), {}, { text: true, blocks: true });
+      signal?.throwIfAborted();
+      if (!data?.blocks) return ocrResultFromText(data?.text ?? "");
+      // Paragraphs are flattened into their block; confidences are reported as 0..100
+      return toResult(
+        data.blocks.map((b) => ({
+          lines: b.paragraphs.flatMap((p) =>
+            p.lines.map((l) => ({
+              text: l.text.trim(),
+              polygon: bboxToPolygon(l.bbox),
+              words: l.words.map((w) => ({
+                text: w.text,
+                polygon: bboxToPolygon(w.bbox),
+                confidence: w.confidence / 100,
+              })),
+            }))
+          ),
+        }))
+      );
+    } catch (e) {
+      signal?.throwIfAborted();
+      throw e;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
-    if (Array.isArray(data?.readResult?.lines)) {
-      const text = data.readResult.lines
-        .map((l: any) => l.text ?? "")
-        .join("\n")
-        .trim();
-      if (text) return text;
+  }
+
+  async dispose(): Promise<void> {
+    const pending = this.worker;
+    this.worker = undefined;
+    if (pending) {
+      try {
+        await (await pending).terminate();
+      } catch {
+        // worker failed to start; nothing to clean up
+      }
     }
-  } catch {
-    // ignore and fall through
   }
 
-  // Last resort: stringify minimal info
-  return "";
+  private langList(): string[] {
+    return this.languages
+      .split(/[+,\s]+/)
+      .map((l) => l.trim())
+      .filter(Boolean);
+  }
+
+  private getWorker(): Promise<TesseractWorker> {
+    if (!this.worker) {
+      const base = this.localAssetsUrl();
+      this.worker = createWorker(this.langList(), undefined, {
+        workerPath: `${base}/worker.min.js`,
+        corePath: base,
+        langPath: base,
+      });
+    }
+    return this.worker;
+  }
+
+  /**
+   * Resource URL for the configured vault folder, without Obsidian's cache-busting query.
+   */
+  private localAssetsUrl(): string {
+    const folder = this.assetsPath.trim();
+    const url = this.app.vault.adapter.getResourcePath(normalizePath(folder));
+    return url.replace(/\?.*$/, "").replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Build a result from blocks, dropping empty lines/blocks and deriving the plain text.
+ */
+function toResult(blocks: OcrBlock[]): OcrResult {
+  const kept = blocks
+    .map((b) => ({ lines: b.lines.filter((l) => l.text.trim()) }))
+    .filter((b) => b.lines.length);
+  return {
+    text: kept
+      .map((b) => b.lines.map((l) => l.text).join("\n"))
+      .join("\n\n")
+      .trim(),
+    blocks: kept,
+  };
+}
+
+function pointsToPolygon(points: { x?: number; y?: number }[] | undefined): number[] | undefined {
+  if (!Array.isArray(points) || !points.length) return undefined;
+  // Vision omits zero coordinates
+  return points.flatMap((p) => [p.x ?? 0, p.y ?? 0]);
+}
+
+function bboxToPolygon(b: { x0: number; y0: number; x1: number; y1: number }): number[] {
+  return [b.x0, b.y0, b.x1, b.y0, b.x1, b.y1, b.x0, b.y1];
+}
+
+/**
+ * Axis-aligned rectangle around several polygons.
+ */
+function boundsOf(polygons: (number[] | undefined)[]): number[] | undefined {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const poly of polygons) {
+    poly?.forEach((v, i) => (i % 2 ? ys : xs).push(v));
+  }
+  if (!xs.length) return undefined;
+  const [x0, x1, y0, y1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return [x0, y0, x1, y0, x1, y1, x0, y1];
+}
+
+function arrayBufferToBase64(bytes: ArrayBuffer): string {
+  const u8 = new Uint8Array(bytes);
+  let binary = "";
+  const CHUNK = 0x8000;
+  for (let i = 0; i < u8.length; i += CHUNK) {
+    binary += String.fromCharCode(...u8.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
 }
@@ -1,99 +1,366 @@
-import OpenAI from "openai";
+import type { LlmProvider, LlmRequest, TokenUsage } from "./llmProviders";
+import type { OcrResult } from "./ocrService";
+import { languageName } from "./language";
+import { BUILTIN_PRESETS, PromptPreset, renderTemplate } from "./promptTemplates";
 
 export interface LlmInputItem {
   fileName: string;
   alt: string;
   ocrText: string;
+  ocr?: OcrResult; // layout + confidence; when present the prompt uses it instead of ocrText
   dataUrl?: string; // data URL (e.g., image/jpeg;base64,...) for vision models
+  width?: number; // pixel size of dataUrl, used for token estimates
+  height?: number;
+  hash?: string; // content hash of the source image, used as cache key
 }
 
 /**
- * Sends a single request to OpenAI (gpt-4o) with:
- * - A structured text summary of all images and their OCR text
- * - The image contents themselves (for those where dataUrl is available)
- * Returns markdown transcription suitable for inserting into the note.
+ * Storage for per-batch model output (see TranscriptionCache).
  */
-export async function openAiTranscription(apiKey: string, items: LlmInputItem[], personalContext?: string): Promise<string> {
-  // Only allow image types commonly supported by OpenAI vision (png, jpeg, webp, gif)
-  const usable = items.filter(
-    (i) => !!i.dataUrl && /^data:image\/(png|jpe?g|webp|gif);/i.test(i.dataUrl)
-  );
-  if (usable.length === 0) {
+export interface BatchCache {
+  getLlm(key: string): string | undefined;
+  setLlm(key: string, text: string): void;
+}
+
+export interface TranscriptionOptions {
+  preset?: PromptPreset; // prompt templates; defaults to the built-in default preset
+  noteTitle?: string;
+  personalContext?: string;
+  languages?: string[]; // ISO 639-1, primary first; empty = whatever the pages are written in
+  preserveMixedLanguages?: boolean;
+  maxImagesPerBatch: number;
+  maxInputTokensPerBatch: number;
+  perItem?: boolean; // one item per call, so each image gets its own output
+  numbering?: { first: number; total: number }; // items' place in a larger run (0-based first index, run size)
+  extraInstructions?: string; // appended to the request, e.g. from a review re-run
+  cache?: BatchCache;
+  signal?: AbortSignal; // stops before the next call and aborts the one in flight
+  onRetry?: (message: string) => void; // told about rate-limit/transient-error retries
+  beforeCall?: (estimatedInputTokens: number) => void; // may throw to stop before a request (budget)
+  onCall?: (usage: TokenUsage) => void; // after every model call, including continuations
+  onBatch?: (index: number, total: number) => void;
+}
+
+export interface TranscriptionResult {
+  text: string; // all batches stitched together
+  batches: { items: number[]; text: string }[]; // item indices covered by each call and its output
+  usage: TokenUsage & { calls: number }; // model calls actually made (cached batches cost nothing)
+}
+
+// How many times a reply cut off by the token limit is resumed before giving up
+const MAX_CONTINUATIONS = 3;
+// Characters of the previous batch's output passed forward so page breaks join up
+const CARRY_CHARS = 600;
+// Rough fixed cost of the system prompt and per-image descriptor boilerplate
+const PROMPT_OVERHEAD_TOKENS = 400;
+const UNKNOWN_IMAGE_TOKENS = 1105;
+// OCR words below this confidence are marked for the model to double-check
+const LOW_CONFIDENCE = 0.6;
+
+/**
+ * Transcribes images with the configured LLM provider.
+ * - Splits items into ordered batches by estimated image + text token cost.
+ * - Each batch gets a structured text summary of its images and their OCR text, the images
+ *   themselves (where dataUrl is available), and the tail of the previous batch's output.
+ * - Replies that hit the token limit are continued until complete.
+ * Returns the stitched markdown transcription plus the output of each batch.
+ */
+export async function openAiTranscription(
+  provider: LlmProvider,
+  items: LlmInputItem[],
+  options: TranscriptionOptions
+): Promise<TranscriptionResult> {
+  // Only allow image types commonly supported by vision models (png, jpeg, webp, gif)
+  if (!items.some(isUsable)) {
     throw new Error("No images available to send to the model.");
   }
 
-  const descriptor = buildDescriptorMarkdown(items);
+  const preset = options.preset ?? BUILTIN_PRESETS[0];
+  const first = options.numbering?.first ?? 0;
+  const total = options.numbering?.total ?? items.length;
+  const vars = templateVars(options, total);
+  const systemPrompt = renderTemplate(preset.system, vars);
+  // Cache keys hash the prompt as sent, except {{date}}, so the cache isn't invalidated daily
+  const keyVars = { ...vars, date: "" };
+  const systemKey = renderTemplate(preset.system, keyVars);
+  const batches = options.perItem
+    ? items.map((_, idx) => [idx])
+    : planBatches(items, options.maxImagesPerBatch, options.maxInputTokensPerBatch);
+
+  const results: TranscriptionResult["batches"] = [];
+  const usage: TranscriptionResult["usage"] = { inputTokens: 0, outputTokens: 0, calls: 0 };
+  let transcript = "";
+  for (let b = 0; b < batches.length; b++) {
+    options.signal?.throwIfAborted();
+    options.onBatch?.(b, batches.length);
+    const batch = batches[b];
+    const describe = (v: Record<string, string>) =>
+      buildDescriptorMarkdown(
+        preset.instructions,
+        v,
+        batch.map((idx) => items[idx]),
+        first + batch[0],
+        total,
+        transcript ? transcript.slice(-CARRY_CHARS) : undefined,
+        options.extraInstructions
+      );
+    const descriptor = describe(vars);
+    const cacheKey = options.cache
+      ? batchCacheKey(provider, systemKey, describe(keyVars), batch.map((idx) => items[idx]))
+      : undefined;
+    let output = cacheKey ? options.cache?.getLlm(cacheKey) : undefined;
+    if (output === undefined) {
+      output = await completeWithContinuation(
+        provider,
+        {
+          system: systemPrompt,
+          text: descriptor,
+          imageDataUrls: batch.map((idx) => items[idx]).filter(isUsable).map((i) => i.dataUrl as string),
+          signal: options.signal,
+          onRetry: options.onRetry,
+        },
+        usage,
+        options,
+        PROMPT_OVERHEAD_TOKENS + batch.reduce((sum, idx) => sum + estimateItemTokens(items[idx]), 0)
+      );
+      if (cacheKey && output.trim()) options.cache?.setLlm(cacheKey, output);
+    }
+    results.push({ items: batch, text: output.trim() });
+    transcript = stitch(transcript, output.trim());
+  }
+
+  return { text: transcript.trim(), batches: results, usage };
+}
 
-  const client = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true,
+/**
+ * Group item indices into consecutive batches. A batch closes when it reaches maxImages
+ * or when adding the next item would exceed maxInputTokens (a single oversized item still
+ * gets its own batch).
+ */
+export function planBatches(items: LlmInputItem[], maxImages: number, maxInputTokens: number): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = PROMPT_OVERHEAD_TOKENS;
+
+  items.forEach((item, idx) => {
+    const cost = estimateItemTokens(item);
+    const imageCount = current.filter((i) => isUsable(items[i])).length;
+    const full =
+      current.length > 0 &&
+      ((isUsable(item) && imageCount >= Math.max(1, maxImages)) || currentTokens + cost > maxInputTokens);
+    if (full) {
+      batches.push(current);
+      current = [];
+      currentTokens = PROMPT_OVERHEAD_TOKENS;
+    }
+    current.push(idx);
+    currentTokens += cost;
   });
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+function estimateItemTokens(item: LlmInputItem): number {
+  const textTokens = Math.ceil((item.ocrText?.length ?? 0) / 4) + 30;
+  if (!isUsable(item)) return textTokens;
+  return textTokens + estimateImageTokens(item.width, item.height);
+}
 
-  const userContent: any[] = [
-    {
-      type: "text",
-      text: descriptor,
-    },
-    // append images after the text content
-    ...usable.map((i) => ({
-      type: "image_url",
-      image_url: { url: i.dataUrl as string },
-    })),
-  ];
-
-  const systemParts = [
-    "You are an assistant transcribing handwritten notes from images.",
-    "Goals:",
-    "- Produce clean, readable markdown.",
-    "- Preserve paragraphs, lists, quotes, headings if apparent.",
-    "- Use the provided OCR text as primary input; consult images to correct OCR mistakes.",
-    "- Keep the author's original wording and style; do not add meta commentary.",
-    "- If uncertain about a word, use your best judgment from context.",
-  ];
-  if (personalContext && personalContext.trim()) {
-    systemParts.push(
-      "",
-      "User-provided context (use only if relevant; prefer OCR + image evidence):",
-      personalContext.trim()
-    );
+/**
+ * OpenAI high-detail vision cost: fit into 2048x2048, shortest side to 768, then
+ * 170 tokens per 512px tile plus 85. Other providers are in the same ballpark.
+ */
+function estimateImageTokens(width?: number, height?: number): number {
+  if (!width || !height) return UNKNOWN_IMAGE_TOKENS;
+  let w = width;
+  let h = height;
+  const fit = Math.min(1, 2048 / Math.max(w, h));
+  w *= fit;
+  h *= fit;
+  const shrink = Math.min(1, 768 / Math.min(w, h));
+  w *= shrink;
+  h *= shrink;
+  return 85 + 170 * Math.ceil(w / 512) * Math.ceil(h / 512);
+}
+
+/**
+ * One batch, resumed while the reply is cut off. Adds each call's usage to the running total
+ * and reports it through the options hooks.
+ */
+async function completeWithContinuation(
+  provider: LlmProvider,
+  req: LlmRequest,
+  usage: TranscriptionResult["usage"],
+  hooks: Pick<TranscriptionOptions, "beforeCall" | "onCall">,
+  estimatedInputTokens: number
+): Promise<string> {
+  const count = (r: { usage?: TokenUsage }) => {
+    const call = { inputTokens: r.usage?.inputTokens ?? 0, outputTokens: r.usage?.outputTokens ?? 0 };
+    usage.calls++;
+    usage.inputTokens += call.inputTokens;
+    usage.outputTokens += call.outputTokens;
+    hooks.onCall?.(call);
+  };
+  hooks.beforeCall?.(estimatedInputTokens);
+  let resp = await provider.complete(req);
+  count(resp);
+  let output = resp.text;
+  let continuations = 0;
+  while (resp.finishReason === "length" && continuations < MAX_CONTINUATIONS) {
+    continuations++;
+    req.signal?.throwIfAborted();
+    // A continuation re-sends the request plus the reply so far
+    hooks.beforeCall?.(estimatedInputTokens + Math.ceil(output.length / 4));
+    resp = await provider.complete({ ...req, continueFrom: output });
+    count(resp);
+    output += resp.text;
   }
-  const systemPrompt = systemParts.join("\n");
-
-  const resp = await client.chat.completions.create({
-    model: "gpt-4o",
-    max_tokens: 2048,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userContent as any },
-    ],
-  });
+  if (resp.finishReason === "length") {
+    console.warn(`Model output still truncated after ${MAX_CONTINUATIONS} continuations.`);
+  }
+  return output;
+}
 
-  const text =
-    resp.choices?.[0]?.message?.content?.toString?.() ??
-    (resp.choices?.[0]?.message?.content as unknown as string) ??
-    "";
+/**
+ * Join batch outputs in order, e.g. after some were edited or dropped during review.
+ */
+export function joinBatchTexts(texts: string[]): string {
+  return texts.reduce((acc, t) => stitch(acc, t.trim()), "").trim();
+}
+
+/**
+ * Join two batch outputs. A sentence left open at a page break (no closing punctuation,
+ * next part starting in lowercase) is joined with a space instead of a paragraph break.
+ */
+function stitch(previous: string, next: string): string {
+  if (!previous) return next;
+  if (!next) return previous;
+  const openSentence = !/[.!?:;)"'»”\]*_`]\s*$/.test(previous);
+  const continuesLower = /^[a-zà-öø-ÿ]/.test(next);
+  return openSentence && continuesLower ? `${previous.trimEnd()} ${next}` : `${previous.trimEnd()}\n\n${next}`;
+}
+
+/**
+ * Cache key for one batch: provider endpoint, model and generation parameters, a fingerprint
+ * of the rendered system prompt and user message (OCR text, carried tail, note title, image
+ * count) and the image hashes in order. Undefined when any image lacks a hash (nothing
+ * reliable to key on).
+ */
+function batchCacheKey(provider: LlmProvider, system: string, descriptor: string, items: LlmInputItem[]): string | undefined {
+  if (items.some((i) => !i.hash)) return undefined;
+  return `${provider.cacheKey}:${fnv1a(system)}${fnv1a(descriptor)}:${items.map((i) => i.hash).join(",")}`;
+}
+
+function fnv1a(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function isUsable(item: LlmInputItem): boolean {
+  return !!item.dataUrl && /^data:image\/(png|jpe?g|webp|gif);/i.test(item.dataUrl);
+}
 
-  return (text ?? "").trim();
+/**
+ * Template variables shared by the system prompt and the instructions ({{ocrBundle}} is
+ * filled per batch).
+ */
+function templateVars(options: TranscriptionOptions, imageCount: number): Record<string, string> {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    personalContext: options.personalContext?.trim() ?? "",
+    noteTitle: options.noteTitle ?? "",
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    imageCount: String(imageCount),
+    language: languageRules(options.languages ?? [], options.preserveMixedLanguages ?? true).join("\n"),
+  };
+}
+
+/**
+ * OCR text line by line (blocks separated by blank lines), with low-confidence words
+ * wrapped in ⟦ ⟧.
+ */
+function ocrPromptText(ocr: OcrResult): string {
+  return ocr.blocks
+    .map((b) =>
+      b.lines
+        .map((l) => {
+          const unsure = (w: { confidence?: number }) => w.confidence !== undefined && w.confidence < LOW_CONFIDENCE;
+          if (!l.words.some(unsure)) return l.text;
+          return l.words.map((w) => (unsure(w) ? `⟦${w.text}⟧` : w.text)).join(" ");
+        })
+        .join("\n")
+    )
+    .join("\n\n")
+    .trim();
 }
 
-function buildDescriptorMarkdown(items: LlmInputItem[]): string {
+function languageRules(languages: string[], preserveMixed: boolean): string[] {
+  const rules: string[] = [];
+  if (languages.length) {
+    const names = languages.map((c) => `${languageName(c)} (${c})`).join(", ");
+    rules.push(`- The notes are written in ${names}${languages.length > 1 ? ", mainly the first" : ""}.`);
+  } else {
+    rules.push("- The notes may be in any language; identify it from the OCR text and images.");
+  }
+  rules.push("- Keep the language's own spelling, accents and punctuation.");
+  if (preserveMixed) {
+    rules.push("- Never translate. Pages may mix languages: keep every passage in the language it was written in.");
+  } else {
+    const main = languages.length ? languageName(languages[0]) : "the page's main language";
+    rules.push(`- Write the whole transcription in ${main}; translate passages written in other languages.`);
+  }
+  return rules;
+}
+
+/**
+ * User message for one batch: the instructions template with {{ocrBundle}} replaced by the
+ * continuation context and each image's name and OCR text. Extra instructions (e.g. from a
+ * review re-run) are appended.
+ */
+function buildDescriptorMarkdown(
+  template: string,
+  vars: Record<string, string>,
+  items: LlmInputItem[],
+  firstIndex: number,
+  totalCount: number,
+  previousTail?: string,
+  extraInstructions?: string
+): string {
   const lines: string[] = [];
-  lines.push("Transcribe the following images. For each image we provide a name, optional alt text, and OCR text.");
-  lines.push("");
+  if (previousTail) {
+    lines.push("These pages continue an earlier transcription, which ended with:");
+    lines.push("```");
+    lines.push(previousTail.trim());
+    lines.push("```");
+    lines.push("Do not repeat that text. If the first page continues a sentence or list from it, carry on seamlessly.");
+    lines.push("");
+  }
   items.forEach((i, idx) => {
-    lines.push(`Image ${idx + 1}: ${i.fileName}${i.alt ? ` (${i.alt})` : ""}`);
+    lines.push(`Image ${firstIndex + idx + 1} of ${totalCount}: ${i.fileName}${i.alt ? ` (${i.alt})` : ""}`);
     lines.push("");
-    if (i.ocrText && i.ocrText.trim()) {
+    const ocrText = i.ocr ? ocrPromptText(i.ocr) : i.ocrText?.trim();
+    if (ocrText) {
       lines.push("OCR text:");
       lines.push("```");
-      lines.push(i.ocrText.trim());
+      lines.push(ocrText);
       lines.push("```");
     } else {
       lines.push("(No OCR text available for this image.)");
     }
     lines.push("");
   });
-  lines.push("");
-  lines.push("Please output only the transcription in markdown. There's no need to wrap it in triple backticks as this will be added directly to an Obsidian note for display.");
-  return lines.join("\n");
+  const bundle = lines.join("\n").trim();
+  // A template without the placeholder still gets the images described
+  const body = template.includes("{{ocrBundle}}") ? template : `${template}\n\n{{ocrBundle}}`;
+  // Substitute the bundle last so OCR text that happens to contain {{...}} is left alone
+  const rendered = renderTemplate(body.replace("{{ocrBundle}}", "\u0000"), vars).replace("\u0000", () => bundle);
+  if (extraInstructions && extraInstructions.trim()) {
+    return `${rendered}\n\nAdditional instructions from the user:\n${extraInstructions.trim()}`;
+  }
+  return rendered;
 }
@@ -0,0 +1,263 @@
+import type { LonghandSettings } from "../settings";
+import { canvasToBlob, context, decodeToCanvas, grayThumbnail, newCanvas, otsu } from "./canvas";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface PageImage {
+  blob: Blob;
+  label?: string; // "left page" / "right page" for split spreads
+}
+
+// Same working cap as image cleanup
+const MAX_EDGE = 4096;
+const ANALYSIS_EDGE = 600;
+// A page must cover this share of the photo, and is left alone above the upper bound
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.92;
+
+/**
+ * Suffix for OCR cache keys, so cropped pages and whole photos are cached apart.
+ */
+export function pageCacheKey(settings: LonghandSettings): string {
+  return settings.detectPages ? `:pages${settings.splitSpreads ? "-split" : ""}` : "";
+}
+
+/**
+ * Find the sheet of paper in a photo, warp it to a flat rectangle and, with splitSpreads,
+ * cut a two-page spread at its gutter into left and right pages (in reading order).
+ * Undefined when there is nothing to change (no paper edge found, no spread).
+ */
+export async function extractPages(blob: Blob, splitSpreads: boolean): Promise<PageImage[] | undefined> {
+  const canvas = await decodeToCanvas(blob, MAX_EDGE);
+  const quad = detectPageQuad(canvas);
+  const page = quad ? warpToRectangle(canvas, quad) : canvas;
+  const gutter = splitSpreads ? findGutter(page) : undefined;
+  if (!quad && gutter === undefined) return undefined;
+
+  if (gutter === undefined) return [{ blob: await canvasToBlob(page, "image/jpeg") }];
+  const split = Math.round(page.width * gutter);
+  return [
+    { blob: await canvasToBlob(crop(page, 0, split), "image/jpeg"), label: "left page" },
+    { blob: await canvasToBlob(crop(page, split, page.width), "image/jpeg"), label: "right page" },
+  ];
+}
+
+/**
+ * Paper quadrilateral in canvas pixels. The paper is taken to be the largest connected region
+ * brighter than Otsu's threshold; its corners are the extreme points along both diagonals.
+ * Undefined when that region is too small, fills the frame, or isn't roughly four-sided.
+ */
+function detectPageQuad(canvas: HTMLCanvasElement): Quad | undefined {
+  const { gray, width, height } = grayThumbnail(canvas, ANALYSIS_EDGE);
+  const threshold = otsu(gray);
+  const region = largestBrightRegion(gray, width, threshold);
+  if (!region || region.area < width * height * MIN_PAGE_AREA) return undefined;
+
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  let tl = region.pixels[0];
+  let tr = tl;
+  let br = tl;
+  let bl = tl;
+  for (const i of region.pixels) {
+    if (sum(i) < sum(tl)) tl = i;
+    if (sum(i) > sum(br)) br = i;
+    if (diff(i) > diff(tr)) tr = i;
+    if (diff(i) < diff(bl)) bl = i;
+  }
+  const scale = canvas.width / width;
+  const point = (i: number): Point => ({ x: ((i % width) + 0.5) * scale, y: (Math.floor(i / width) + 0.5) * scale });
+  const quad: Quad = [point(tl), point(tr), point(br), point(bl)];
+
+  const quadArea = polygonArea(quad) / (scale * scale);
+  if (quadArea > width * height * MAX_PAGE_AREA) return undefined; // page already fills the photo
+  if (region.area < quadArea * 0.85) return undefined; // not a four-sided sheet
+  return quad;
+}
+
+/**
+ * Perspective-warp the quad to a rectangle sized by its longer opposite edges (bilinear sampling).
+ */
+function warpToRectangle(canvas: HTMLCanvasElement, quad: Quad): HTMLCanvasElement {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  const src = context(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const out = newCanvas(width, height);
+  const outCtx = context(out);
+  const dst = outCtx.createImageData(width, height);
+  const h = homography(
+    [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ],
+    quad
+  );
+  const sw = src.width;
+  const sh = src.height;
+  const s = src.data;
+  const d = dst.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = h[6] * u + h[7] * v + 1;
+      const sx = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w - 0.5));
+      const sy = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = s[(y0 * sw + x0) * 4 + c] * (1 - fx) + s[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = s[(y1 * sw + x0) * 4 + c] * (1 - fx) + s[(y1 * sw + x1) * 4 + c] * fx;
+        d[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      d[o + 3] = 255;
+    }
+  }
+  outCtx.putImageData(dst, 0, 0);
+  return out;
+}
+
+/**
+ * Split position (0..1 of the width) of a two-page spread, or undefined. Only landscape
+ * pages are considered; the gutter is a shadow running down the middle fifth, or failing
+ * that, a blank column band between two written pages.
+ */
+function findGutter(canvas: HTMLCanvasElement): number | undefined {
+  if (canvas.width < canvas.height * 1.15) return undefined;
+  const { gray, width, height } = grayThumbnail(canvas, ANALYSIS_EDGE);
+  const threshold = otsu(gray);
+  const brightness = new Array<number>(width).fill(0);
+  const ink = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const g = gray[y * width + x];
+      brightness[x] += g / height;
+      if (g < threshold) ink[x] += 1 / height;
+    }
+  }
+  const from = Math.floor(width * 0.4);
+  const to = Math.ceil(width * 0.6);
+
+  const shade = smooth(brightness, 2);
+  const median = [...shade].sort((a, b) => a - b)[Math.floor(shade.length / 2)];
+  const shadow = argMin(shade, from, to);
+  if (shade[shadow] < median - 12) return shadow / width;
+
+  const density = smooth(ink, Math.max(2, Math.round(width / 50)));
+  const average = ink.reduce((a, b) => a + b, 0) / width;
+  const gap = argMin(density, from, to);
+  if (average > 0.005 && density[gap] < average * 0.15) {
+    // Ink on both sides, so it is two written pages rather than one page with a wide margin
+    const left = ink.slice(0, gap).reduce((a, b) => a + b, 0);
+    const right = ink.slice(gap).reduce((a, b) => a + b, 0);
+    if (Math.min(left, right) > Math.max(left, right) * 0.2) return gap / width;
+  }
+  return undefined;
+}
+
+/**
+ * Largest 4-connected region of pixels at or above threshold (breadth-first flood fill).
+ */
+function largestBrightRegion(
+  gray: Uint8Array,
+  width: number,
+  threshold: number
+): { pixels: Int32Array; area: number } | undefined {
+  const seen = new Uint8Array(gray.length);
+  const queue = new Int32Array(gray.length);
+  let best: Int32Array | undefined;
+  for (let start = 0; start < gray.length; start++) {
+    if (seen[start] || gray[start] < threshold) continue;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= gray.length || seen[n] || gray[n] < threshold) continue;
+        seen[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+    if (!best || tail > best.length) best = queue.slice(0, tail);
+  }
+  return best ? { pixels: best, area: best.length } : undefined;
+}
+
+/**
+ * 3x3 projective transform (h33 = 1) mapping each from[i] to to[i], as 8 coefficients.
+ */
+function homography(from: Point[], to: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c < 9; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  return a.map((row, i) => row[8] / row[i]);
+}
+
+function crop(canvas: HTMLCanvasElement, from: number, to: number): HTMLCanvasElement {
+  const out = newCanvas(to - from, canvas.height);
+  context(out).drawImage(canvas, from, 0, to - from, canvas.height, 0, 0, to - from, canvas.height);
+  return out;
+}
+
+function smooth(values: number[], radius: number): number[] {
+  return values.map((_, i) => {
+    const lo = Math.max(0, i - radius);
+    const hi = Math.min(values.length - 1, i + radius);
+    let sum = 0;
+    for (let j = lo; j <= hi; j++) sum += values[j];
+    return sum / (hi - lo + 1);
+  });
+}
+
+function argMin(values: number[], from: number, to: number): number {
+  let best = from;
+  for (let i = from; i < to; i++) if (values[i] < values[best]) best = i;
+  return best;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
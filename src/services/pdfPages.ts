@@ -0,0 +1,48 @@
+import { loadPdfJs } from "obsidian";
+import { canvasToBlob, context, newCanvas } from "./canvas";
+import type { PageImage } from "./pageDetect";
+
+// Scanned pages are rendered at about 300 dpi (PDF units are 1/72 inch), capped like photos
+const RENDER_DPI = 300;
+const MAX_EDGE = 4096;
+
+/**
+ * Render PDF pages to JPEG with the PDF.js bundled in Obsidian.
+ * - pages: 1-based page numbers to render; all pages when omitted. Out-of-range numbers are skipped.
+ * - limit: at most this many pages are rendered.
+ * Each result is labelled "page N of M" so the page number reaches the prompt.
+ */
+export async function rasterizePdf(bytes: ArrayBuffer, pages: number[] | undefined, limit: number): Promise<PageImage[]> {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(bytes) }).promise;
+  try {
+    const total: number = doc.numPages;
+    const wanted = (pages ?? Array.from({ length: total }, (_, i) => i + 1)).filter((n) => n >= 1 && n <= total);
+    const out: PageImage[] = [];
+    for (const n of wanted.slice(0, limit)) {
+      const page = await doc.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const scale = Math.min(RENDER_DPI / 72, MAX_EDGE / Math.max(base.width, base.height));
+      const viewport = page.getViewport({ scale });
+      const canvas = newCanvas(Math.round(viewport.width), Math.round(viewport.height));
+      const ctx = context(canvas);
+      // Transparent PDFs would otherwise render onto black in JPEG
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+      out.push({ blob: await canvasToBlob(canvas, "image/jpeg"), label: `page ${n} of ${total}` });
+    }
+    return out;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * Page number from an embed subpath such as "#page=3", if any.
+ */
+export function pdfPageFromSubpath(subpath: string | undefined): number | undefined {
+  const m = /(?:^|[#&])page=(\d+)/.exec(subpath ?? "");
+  return m ? Number(m[1]) : undefined;
+}
@@ -5,12 +5,22 @@ export interface ProgressOptions {
   startFinishNotices: boolean;
   floatingToast: boolean;
   overlayPosition: "off" | "top" | "bottom";
+  cancellable?: boolean; // offer a Cancel action on the status bar, overlay and toasts
 }
 
 /**
- * Lightweight log entry (future expansion).
+ * The part of ProgressService the processing pipeline reports to. Batch runs pass an
+ * adapter that folds per-note messages into overall progress.
  */
-interface ProgressLogEntry {
+export interface ProgressSink {
+  set(msg: string): void;
+  setProgress(current: number, total: number, msg: string): void;
+}
+
+/**
+ * One status update, kept for the run history.
+ */
+export interface ProgressLogEntry {
   time: number;
   message: string;
   current?: number;
@@ -24,15 +34,18 @@ interface ProgressLogEntry {
  *  - Status bar text (existing behavior)
  *  - Optional floating toast updates (mobile-friendly)
  *  - Optional overlay progress bar (top/bottom)
+ *  - Optional Cancel action that aborts `signal`
  * API:
  *  - start(msg)
  *  - set(msg)
  *  - setProgress(current,total,msg)
  *  - done(msg)
  *  - fail(msg)
+ *  - cancel()
  *  - dispose()
+ *  - log: messages so far, with time and kind
  */
-export class ProgressService {
+export class ProgressService implements ProgressSink {
   private statusEl?: HTMLElement;
   private toastContainer?: HTMLElement;
   private overlayEl?: HTMLElement;
@@ -40,10 +53,11 @@ export class ProgressService {
   private overlayTextEl?: HTMLElement;
   private disposed = false;
   private last = "";
-  private log: ProgressLogEntry[] = [];
+  readonly log: ProgressLogEntry[] = []; // every message shown, in order
   private startedAt = Date.now();
   private current?: number;
   private total?: number;
+  private abort = new AbortController();
 
   constructor(
     private app: App,
@@ -52,6 +66,11 @@ export class ProgressService {
   ) {
     if (opts.statusBar) {
       this.statusEl = this.plugin.addStatusBarItem();
+      if (opts.cancellable) {
+        this.statusEl.addClass("mod-clickable");
+        this.statusEl.setAttribute("aria-label", "Click to cancel");
+        this.statusEl.addEventListener("click", () => this.cancel());
+      }
     }
     this.injectBaseCss();
     if (opts.floatingToast) {
@@ -62,6 +81,23 @@ export class ProgressService {
     }
   }
 
+  /**
+   * Aborted when the user presses Cancel; pass it to requests and check it between steps.
+   */
+  get signal(): AbortSignal {
+    return this.abort.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.abort.signal.aborted;
+  }
+
+  cancel() {
+    if (this.disposed || this.abort.signal.aborted) return;
+    this.abort.abort();
+    this.internalUpdate("Cancelling…", { kind: "info" });
+  }
+
   start(msg: string) {
     if (this.opts.startFinishNotices) new Notice(msg);
     this.startedAt = Date.now();
@@ -144,6 +180,9 @@ export class ProgressService {
     const item = document.createElement("div");
     item.className = `longhand-toast longhand-kind-${kind}`;
     item.textContent = message;
+    if (this.opts.cancellable && kind === "info" && !this.abort.signal.aborted) {
+      item.appendChild(this.createCancelButton("longhand-toast-cancel"));
+    }
     container.appendChild(item);
 
     while (container.children.length > 4) {
@@ -170,9 +209,25 @@ export class ProgressService {
 
     this.overlayEl.appendChild(this.overlayBarEl);
     this.overlayEl.appendChild(this.overlayTextEl);
+    if (this.opts.cancellable) {
+      this.overlayEl.classList.add("longhand-overlay-cancellable");
+      this.overlayEl.appendChild(this.createCancelButton("longhand-overlay-cancel"));
+    }
     document.body.appendChild(this.overlayEl);
   }
 
+  private createCancelButton(cls: string): HTMLElement {
+    const btn = document.createElement("button");
+    btn.className = cls;
+    btn.textContent = "Cancel";
+    btn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.cancel();
+      btn.remove();
+    });
+    return btn;
+  }
+
   private updateOverlay(
     msg: string,
     meta: { current?: number; total?: number; kind: ProgressLogEntry["kind"] }
@@ -313,6 +368,22 @@ export class ProgressService {
 .longhand-progress-error .longhand-overlay-bar-fill {
   background: linear-gradient(90deg,#e74c3c,#ff6f5e);
 }
+.longhand-overlay-cancel {
+  position: absolute;
+  right: 10px;
+  bottom: 3px;
+  pointer-events: auto;
+  font-size: 11px;
+  padding: 0 8px;
+  height: 18px;
+}
+.longhand-overlay-cancellable .longhand-overlay-text { padding-right: 70px; }
+.longhand-toast-cancel {
+  margin-left: 8px;
+  font-size: 11px;
+  padding: 0 6px;
+  height: 18px;
+}
 .longhand-progress-fade {
   opacity: 0 !important;
   transition: opacity 400ms ease;
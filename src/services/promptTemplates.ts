@@ -0,0 +1,150 @@
+import { App, TFile } from "obsidian";
+import type { LonghandSettings } from "../settings";
+
+// Frontmatter key that picks the preset for one note (id or name)
+export const PRESET_FRONTMATTER_KEY = "longhand-preset";
+
+/**
+ * A named pair of templates.
+ * - system: the system prompt.
+ * - instructions: the user message sent with the images; must contain {{ocrBundle}}.
+ * Variables: {{personalContext}}, {{noteTitle}}, {{date}}, {{imageCount}}, {{language}},
+ * {{ocrBundle}}. {{#name}}…{{/name}} keeps its content only when the variable is non-empty.
+ */
+export interface PromptPreset {
+  id: string;
+  name: string;
+  system: string;
+  instructions: string;
+}
+
+export const TEMPLATE_VARIABLES = ["personalContext", "noteTitle", "date", "imageCount", "language", "ocrBundle"];
+
+const OCR_RULES = [
+  "- Use the provided OCR text as primary input; consult images to correct OCR mistakes.",
+  "- OCR line breaks follow the page; use them to rebuild paragraphs and lists, but join lines that only wrap.",
+  "- Words the OCR was unsure about are wrapped in ⟦ ⟧. Check them against the image; never output the brackets.",
+  "- If uncertain about a word, use your best judgment from context.",
+].join("\n");
+
+const CONTEXT_SECTION = [
+  "{{#personalContext}}",
+  "",
+  "User-provided context (use only if relevant; prefer OCR + image evidence):",
+  "{{personalContext}}",
+  "{{/personalContext}}",
+].join("\n");
+
+const OUTPUT_RULE =
+  "Please output only the transcription in markdown. There's no need to wrap it in triple backticks as this will be added directly to an Obsidian note for display.";
+
+function systemTemplate(intro: string, goals: string[]): string {
+  return [intro, "Goals:", ...goals, OCR_RULES, "{{language}}", CONTEXT_SECTION].join("\n");
+}
+
+function instructionsTemplate(task: string, extra: string[] = []): string {
+  return [task, "", "{{ocrBundle}}", "", ...extra, OUTPUT_RULE].join("\n");
+}
+
+export const BUILTIN_PRESETS: PromptPreset[] = [
+  {
+    id: "default",
+    name: "Default",
+    system: systemTemplate("You are an assistant transcribing handwritten notes from images.", [
+      "- Produce clean, readable markdown.",
+      "- Preserve paragraphs, lists, quotes, headings if apparent.",
+      "- Keep the author's original wording and style; do not add meta commentary.",
+    ]),
+    instructions: instructionsTemplate(
+      "Transcribe the following images. For each image we provide a name, optional alt text, and OCR text."
+    ),
+  },
+  {
+    id: "journal",
+    name: "Journal",
+    system: systemTemplate("You are transcribing pages of a handwritten personal journal.", [
+      "- Transcribe verbatim: keep the author's wording, grammar, spelling quirks and abbreviations exactly.",
+      "- Do not summarize, correct, reorder or add headings that are not on the page.",
+      "- Keep paragraph breaks; keep dates written on the page as they are.",
+      "- Mark words you cannot read as [illegible].",
+    ]),
+    instructions: instructionsTemplate(
+      "Transcribe these {{imageCount}} journal page(s) for the note \"{{noteTitle}}\" word for word."
+    ),
+  },
+  {
+    id: "meeting",
+    name: "Meeting notes",
+    system: systemTemplate("You are transcribing handwritten meeting notes.", [
+      "- Produce clean markdown: attendees, topics and decisions as lists or short paragraphs.",
+      "- Keep the author's wording; expand nothing that is not written.",
+      "- Collect every action item (task, owner and due date when written).",
+    ]),
+    instructions: instructionsTemplate(
+      "Transcribe these meeting notes ({{noteTitle}}, processed {{date}}).",
+      [
+        "After the transcription add a section \"### Action items\" listing each action item as a task, e.g. `- [ ] Send budget draft (Anna, Friday)`. Write \"- none\" if there are none.",
+        "",
+      ]
+    ),
+  },
+  {
+    id: "recipe",
+    name: "Recipe",
+    system: systemTemplate("You are transcribing a handwritten recipe.", [
+      "- Structure it as: title heading, \"Ingredients\" as a bullet list with quantities, \"Steps\" as a numbered list.",
+      "- Keep quantities and units exactly as written; do not convert them.",
+      "- Keep any notes or variations at the end.",
+    ]),
+    instructions: instructionsTemplate("Transcribe this recipe from the following image(s)."),
+  },
+  {
+    id: "lecture",
+    name: "Lecture notes",
+    system: systemTemplate("You are transcribing handwritten lecture notes.", [
+      "- Produce structured markdown: headings for topics, nested bullet lists for points.",
+      "- Write formulas in LaTeX ($…$ inline, $$…$$ for display).",
+      "- Describe diagrams briefly in italics, e.g. *[Diagram: supply and demand curves]*.",
+      "- Keep the author's wording and abbreviations.",
+    ]),
+    instructions: instructionsTemplate("Transcribe these lecture notes for \"{{noteTitle}}\"."),
+  },
+];
+
+/**
+ * Fill a template: {{#name}}…{{/name}} sections are dropped when the variable is empty, then
+ * {{name}} is replaced. Unknown variables become empty.
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, body: string) =>
+      vars[name]?.trim() ? body : ""
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => vars[name] ?? "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Find a preset by id or name (case-insensitive) among the configured presets.
+ */
+export function findPreset(settings: LonghandSettings, key: string | undefined): PromptPreset | undefined {
+  const wanted = key?.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return settings.promptPresets.find((p) => p.id.toLowerCase() === wanted || p.name.toLowerCase() === wanted);
+}
+
+/**
+ * Preset for a run: an explicit choice, else the note's frontmatter, else the active preset,
+ * else the built-in default.
+ */
+export function resolvePreset(app: App, file: TFile, settings: LonghandSettings, explicit?: string): PromptPreset {
+  const fm: any = app.metadataCache.getFileCache(file)?.frontmatter;
+  const fromNote = typeof fm?.[PRESET_FRONTMATTER_KEY] === "string" ? fm[PRESET_FRONTMATTER_KEY] : undefined;
+  return (
+    findPreset(settings, explicit) ??
+    findPreset(settings, fromNote) ??
+    findPreset(settings, settings.activePreset) ??
+    BUILTIN_PRESETS[0]
+  );
+}
@@ -0,0 +1,131 @@
+import { App, Events } from "obsidian";
+import type { RerunMode } from "./longhandBlock";
+import type { ProgressLogEntry } from "./progress";
+import type { ImageReport } from "./runReport";
+
+/**
+ * Filled in by the pipeline while it runs, so a run can be recorded however it ends.
+ */
+export interface RunTrace {
+  images: string[]; // image keys, in processing order
+  reports: ImageReport[];
+  model?: string;
+  ocr?: string;
+  cost?: number;
+}
+
+/**
+ * The run's pipeline options that can be stored, so "Re-run" repeats the run as it was
+ * (targeted insertion, new-only auto-processing, a picked subset, a preset).
+ */
+export interface RecordedOptions {
+  cursorOffset?: number;
+  onlyPaths?: string[];
+  imageOrder?: string[];
+  rerunMode?: RerunMode;
+  review?: boolean;
+  preset?: string;
+  insertAt?: number;
+}
+
+export type RunStatus = "ok" | "failed" | "cancelled";
+
+export interface RunRecord {
+  id: string;
+  note: string; // note path at the time of the run
+  started: number;
+  duration: number; // ms
+  status: RunStatus;
+  message: string; // the finish or failure notice
+  model: string;
+  ocr: string;
+  images: string[]; // image keys, in processing order
+  options?: RecordedOptions; // missing in runs recorded before options were stored
+  reports: ImageReport[];
+  cost?: number;
+  log: Pick<ProgressLogEntry, "time" | "kind" | "message">[];
+}
+
+interface HistoryData {
+  version: 1;
+  runs: RunRecord[]; // oldest first
+}
+
+/**
+ * The last runs, kept in the plugin folder. Triggers "changed" after every update.
+ */
+export class RunHistoryStore extends Events {
+  private data: HistoryData = { version: 1, runs: [] };
+  private loaded = false;
+
+  constructor(
+    private app: App,
+    private path: string
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+        if (parsed?.version === 1) this.data = { version: 1, runs: parsed.runs ?? [] };
+      }
+    } catch (e) {
+      console.warn("Longhand: failed to read run history; starting empty.", e);
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Add a run, keeping at most limit runs.
+   */
+  async add(run: RunRecord, limit: number): Promise<void> {
+    await this.load();
+    this.data.runs = [...this.data.runs, run].slice(-Math.max(1, limit));
+    await this.save();
+  }
+
+  /**
+   * Runs, newest first.
+   */
+  async runs(): Promise<RunRecord[]> {
+    await this.load();
+    return [...this.data.runs].reverse();
+  }
+
+  async clear(): Promise<void> {
+    this.data = { version: 1, runs: [] };
+    this.loaded = true;
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+    this.trigger("changed");
+  }
+}
+
+/**
+ * Plain-text version of a run for bug reports: summary, per-image status, then the log with
+ * times relative to the start.
+ */
+export function formatRunLog(run: RunRecord): string {
+  const lines = [
+    `Longhand run: ${run.note}`,
+    `Started: ${new Date(run.started).toISOString()}, took ${(run.duration / 1000).toFixed(1)}s`,
+    `Status: ${run.status}: ${run.message}`,
+    `Model: ${run.model || "(none)"}; OCR: ${run.ocr || "(none)"}${run.cost ? `; cost ≈ $${run.cost.toFixed(3)}` : ""}`,
+    `Images (${run.images.length}): ${run.images.join(", ") || "(none)"}`,
+  ];
+  if (run.reports.length) {
+    lines.push("Per image:");
+    for (const r of run.reports) lines.push(`  ${r.name}: ${r.status}${r.reason ? ` (${r.reason})` : ""}`);
+  }
+  lines.push("Log:");
+  for (const entry of run.log) {
+    lines.push(`  +${((entry.time - run.started) / 1000).toFixed(1)}s ${entry.kind}: ${entry.message}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,47 @@
+import { App, TFile } from "obsidian";
+import { coverageKey, LonghandSource } from "./longhandBlock";
+
+// Frontmatter property holding the last run's record
+export const METADATA_FRONTMATTER_KEY = "longhand";
+
+/**
+ * Machine-readable record of a run, stored under `longhand:` in the note's frontmatter, e.g.
+ *   longhand:
+ *     images: [{ path: Scans/p1.jpg, hash: 3f2a… }]
+ *     ocr: azure-read
+ *     model: gpt-4o
+ *     processed: 2026-01-31T09:12:00.000Z
+ *     tokens: { input: 5230, output: 812 }
+ * Lets Dataview list notes without `longhand` (untranscribed) or compare image hashes.
+ */
+export interface RunMetadata {
+  images: LonghandSource[];
+  ocr: string;
+  model: string;
+  processed: string; // ISO timestamp
+  tokens: { input: number; output: number };
+}
+
+/**
+ * Write the record. With merge, images from earlier runs are kept (a re-run of the same path,
+ * or PDF page, replaces its hash); otherwise the list is replaced.
+ */
+export async function writeRunMetadata(app: App, file: TFile, meta: RunMetadata, merge: boolean): Promise<void> {
+  await app.fileManager.processFrontMatter(file, (fm: any) => {
+    const previous = readImages(fm?.[METADATA_FRONTMATTER_KEY]);
+    const images = new Map<string, LonghandSource>();
+    if (merge) for (const img of previous) images.set(coverageKey(img), img);
+    for (const img of meta.images) images.set(coverageKey(img), img);
+    fm[METADATA_FRONTMATTER_KEY] = {
+      ...meta,
+      images: Array.from(images.values()),
+    };
+  });
+}
+
+function readImages(value: any): LonghandSource[] {
+  const images = Array.isArray(value?.images) ? value.images : [];
+  return images
+    .filter((i: any) => typeof i?.path === "string" && typeof i?.hash === "string")
+    .map((i: any) => (typeof i.page === "number" ? { path: i.path, hash: i.hash, page: i.page } : { path: i.path, hash: i.hash }));
+}
@@ -0,0 +1,55 @@
+export type ImageStatus = "ok" | "ocr-failed" | "prep-failed" | "excluded";
+
+/**
+ * Outcome for one image (or one page of it) in a run.
+ */
+export interface ImageReport {
+  path: string; // vault path of the source file
+  name: string; // file name, with the page for multi-page sources
+  status: ImageStatus;
+  reason?: string; // error message, or a warning on an otherwise ok image
+}
+
+const STATUS_LABELS: Record<ImageStatus, string> = {
+  ok: "ok",
+  "ocr-failed": "OCR failed",
+  "prep-failed": "could not be prepared",
+  excluded: "not sent to the model",
+};
+
+/**
+ * Images that failed somewhere, or went through with a warning.
+ */
+export function needsAttention(reports: ImageReport[]): ImageReport[] {
+  return reports.filter((r) => r.status !== "ok" || r.reason);
+}
+
+export function describeReport(report: ImageReport): string {
+  const label = report.status === "ok" ? "" : STATUS_LABELS[report.status];
+  const detail = [label, report.reason].filter(Boolean).join(": ");
+  return `${report.name} (${detail})`;
+}
+
+/**
+ * One sentence for the finish notice, or "" when every image went through cleanly.
+ */
+export function reportSummary(reports: ImageReport[]): string {
+  const issues = needsAttention(reports);
+  if (!issues.length) return "";
+  const shown = issues.slice(0, 3).map(describeReport).join(", ");
+  return `${issues.length} of ${reports.length} need attention: ${shown}${issues.length > 3 ? ", …" : ""}.`;
+}
+
+/**
+ * Collapsed `> [!warning] Longhand` callout listing the images that need attention, or ""
+ * when there are none.
+ */
+export function reportCallout(reports: ImageReport[]): string {
+  const issues = needsAttention(reports);
+  if (!issues.length) return "";
+  const lines = issues.map((r) => {
+    const label = r.status === "ok" ? "warning" : STATUS_LABELS[r.status];
+    return `> - **${r.name}**: ${label}${r.reason ? ` (${r.reason.replace(/\s*\n\s*/g, " ")})` : ""}`;
+  });
+  return [`> [!warning]- Longhand`, `> ${issues.length} image(s) need attention:`, ...lines].join("\n");
+}
@@ -0,0 +1,90 @@
+import { App } from "obsidian";
+import { ocrResultFromText, OcrResult } from "./ocrService";
+
+interface CacheData {
+  version: 1;
+  ocr: Record<string, Record<string, OcrResult | string>>; // image hash -> OCR provider key -> result (plain text in older files)
+  llm: Record<string, string>; // batch key (provider, prompt, image hashes) -> model output
+  notes: Record<string, string[]>; // note path -> image hashes it used
+}
+
+const EMPTY: CacheData = { version: 1, ocr: {}, llm: {}, notes: {} };
+
+/**
+ * Persistent cache of OCR results (with layout) and model output, keyed by image content hash, stored as a
+ * JSON file in the plugin folder. Unchanged images are reused on re-runs without network calls.
+ * - load() is idempotent; call it before each run.
+ * - Mutations are in memory until save().
+ */
+export class TranscriptionCache {
+  private data: CacheData = structuredClone(EMPTY);
+  private loaded = false;
+
+  constructor(
+    private app: App,
+    private path: string
+  ) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+        if (parsed?.version === 1) {
+          this.data = { ...structuredClone(EMPTY), ...parsed };
+        }
+      }
+    } catch (e) {
+      console.warn("Longhand: failed to read transcription cache; starting empty.", e);
+    }
+    this.loaded = true;
+  }
+
+  async save(): Promise<void> {
+    if (!this.loaded) return;
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+  }
+
+  getOcr(hash: string, providerKey: string): OcrResult | undefined {
+    const entry = this.data.ocr[hash]?.[providerKey];
+    return typeof entry === "string" ? ocrResultFromText(entry) : entry;
+  }
+
+  setOcr(hash: string, providerKey: string, result: OcrResult) {
+    (this.data.ocr[hash] ??= {})[providerKey] = result;
+  }
+
+  getLlm(key: string): string | undefined {
+    return this.data.llm[key];
+  }
+
+  setLlm(key: string, text: string) {
+    this.data.llm[key] = text;
+  }
+
+  recordNote(notePath: string, hashes: string[]) {
+    const known = new Set(this.data.notes[notePath] ?? []);
+    for (const h of hashes) known.add(h);
+    this.data.notes[notePath] = Array.from(known);
+  }
+
+  /**
+   * Drop every entry for images used by the note. Returns the number of images forgotten.
+   */
+  clearNote(notePath: string): number {
+    const hashes = this.data.notes[notePath] ?? [];
+    for (const h of hashes) {
+      delete this.data.ocr[h];
+      for (const key of Object.keys(this.data.llm)) {
+        if (key.includes(h)) delete this.data.llm[key];
+      }
+    }
+    delete this.data.notes[notePath];
+    return hashes.length;
+  }
+
+  clearAll() {
+    this.data = structuredClone(EMPTY);
+    this.loaded = true;
+  }
+}
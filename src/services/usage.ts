@@ -0,0 +1,223 @@
+import { App } from "obsidian";
+import type { LonghandSettings } from "../settings";
+
+/**
+ * What one run consumed. ocrCalls counts billable OCR requests (not Tesseract, not cache hits).
+ */
+export interface RunUsage {
+  note: string;
+  model: string;
+  ocr: string;
+  inputTokens: number;
+  outputTokens: number;
+  modelCalls: number;
+  images: number;
+  ocrCalls: number;
+}
+
+export interface UsageRecord extends RunUsage {
+  at: number;
+  cost?: number; // USD; undefined when the model has no configured price
+}
+
+export interface UsageMonth {
+  month: string; // "YYYY-MM", local time
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  modelCalls: number;
+  images: number;
+  ocrCalls: number;
+  cost: number; // USD, known prices only
+  unpriced: number; // runs whose model had no price
+}
+
+interface UsageData {
+  version: 1;
+  months: Record<string, UsageMonth>;
+  runs: UsageRecord[]; // most recent last
+}
+
+const MAX_RUNS = 200;
+
+export interface ModelPrice {
+  input: number; // USD per 1M tokens
+  output: number;
+}
+
+/**
+ * Parse the price list setting, one "model = input, output" line per model (USD per
+ * 1M tokens). Blank lines and lines starting with # are ignored.
+ */
+export function parseModelPrices(text: string): Map<string, ModelPrice> {
+  const prices = new Map<string, ModelPrice>();
+  for (const line of text.split(/\r?\n/)) {
+    const m = /^\s*([^#=\s][^=]*?)\s*=\s*([\d.]+)\s*[,/ ]\s*([\d.]+)\s*$/.exec(line);
+    if (m) prices.set(m[1].toLowerCase(), { input: Number(m[2]), output: Number(m[3]) });
+  }
+  return prices;
+}
+
+/**
+ * Price for a model: exact name, else the longest configured prefix (so "gpt-4o" also
+ * covers "gpt-4o-2024-08-06").
+ */
+export function priceFor(settings: LonghandSettings, model: string): ModelPrice | undefined {
+  const prices = parseModelPrices(settings.modelPrices);
+  const name = model.toLowerCase();
+  if (prices.has(name)) return prices.get(name);
+  let best: string | undefined;
+  for (const key of prices.keys()) {
+    if (name.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? prices.get(best) : undefined;
+}
+
+/**
+ * Estimated USD cost, or undefined when the model has no price (OCR cost is still known).
+ */
+export function estimateCost(
+  settings: LonghandSettings,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number; ocrCalls: number }
+): number | undefined {
+  const ocr = (usage.ocrCalls * settings.ocrPricePer1000) / 1000;
+  const price = priceFor(settings, model);
+  if (!price) return usage.inputTokens || usage.outputTokens ? undefined : ocr;
+  return ocr + (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function monthKey(at: number = Date.now()): string {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Raised before a request that could take the month over the configured budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Per-run budget check. Each request is priced at its worst case (estimated input, full
+ * output allowance) before it is sent; actual usage is added afterwards. Disabled when the
+ * budget is 0; models without a price only count their OCR cost.
+ */
+export class BudgetGuard {
+  private spent: number;
+
+  constructor(
+    private settings: LonghandSettings,
+    private model: string,
+    spentThisMonth: number
+  ) {
+    this.spent = spentThisMonth;
+  }
+
+  checkModelCall(estimatedInputTokens: number) {
+    this.check(
+      estimateCost(this.settings, this.model, {
+        inputTokens: estimatedInputTokens,
+        outputTokens: this.settings.llmMaxTokens,
+        ocrCalls: 0,
+      }) ?? 0
+    );
+  }
+
+  checkOcrCall() {
+    this.check(this.settings.ocrPricePer1000 / 1000);
+  }
+
+  add(cost: number) {
+    this.spent += cost;
+  }
+
+  private check(next: number) {
+    const budget = this.settings.monthlyBudget;
+    if (!(budget > 0) || this.spent + next <= budget) return;
+    throw new BudgetExceededError(
+      `Longhand: monthly budget of $${budget.toFixed(2)} reached ($${this.spent.toFixed(2)} spent); run stopped.`
+    );
+  }
+}
+
+/**
+ * Usage history as a JSON file in the plugin folder: totals per month plus the most
+ * recent runs.
+ */
+export class UsageStore {
+  private data: UsageData = { version: 1, months: {}, runs: [] };
+  private loaded = false;
+
+  constructor(
+    private app: App,
+    private path: string
+  ) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+        if (parsed?.version === 1) this.data = { version: 1, months: parsed.months ?? {}, runs: parsed.runs ?? [] };
+      }
+    } catch (e) {
+      console.warn("Longhand: failed to read usage history; starting empty.", e);
+    }
+    this.loaded = true;
+  }
+
+  async record(run: RunUsage, cost: number | undefined): Promise<void> {
+    await this.load();
+    const at = Date.now();
+    const key = monthKey(at);
+    const month = (this.data.months[key] ??= {
+      month: key,
+      runs: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      modelCalls: 0,
+      images: 0,
+      ocrCalls: 0,
+      cost: 0,
+      unpriced: 0,
+    });
+    month.runs++;
+    month.inputTokens += run.inputTokens;
+    month.outputTokens += run.outputTokens;
+    month.modelCalls += run.modelCalls;
+    month.images += run.images;
+    month.ocrCalls += run.ocrCalls;
+    if (cost === undefined) month.unpriced++;
+    else month.cost += cost;
+
+    this.data.runs = [...this.data.runs, { ...run, at, cost }].slice(-MAX_RUNS);
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+  }
+
+  /**
+   * Known cost so far in the current month.
+   */
+  async spentThisMonth(): Promise<number> {
+    await this.load();
+    return this.data.months[monthKey()]?.cost ?? 0;
+  }
+
+  /**
+   * Month totals, newest first.
+   */
+  async months(): Promise<UsageMonth[]> {
+    await this.load();
+    return Object.values(this.data.months).sort((a, b) => b.month.localeCompare(a.month));
+  }
+
+  async clear(): Promise<void> {
+    this.data = { version: 1, months: {}, runs: [] };
+    this.loaded = true;
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+  }
+}
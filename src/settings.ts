@@ -1,32 +1,141 @@
 import { App, PluginSettingTab, Setting, Notice, Plugin } from "obsidian";
+import { OCR_PROVIDER_LABELS } from "./services/ocrService";
+import { DEFAULT_LLM_MODELS, LLM_PROVIDER_LABELS } from "./services/llmProviders";
+import type { RerunMode } from "./services/longhandBlock";
+import { BUILTIN_PRESETS, PromptPreset, TEMPLATE_VARIABLES } from "./services/promptTemplates";
+import { UsageStore } from "./services/usage";
+import type { ContrastMode } from "./services/imageCleanup";
+
+export type OcrProviderId = "azure-image-analysis" | "azure-read" | "google-vision" | "tesseract";
+
+export type PlacementMode = "prepend" | "append" | "heading" | "cursor" | "per-image";
+
+export type LlmProviderId = "openai" | "azure-openai" | "anthropic";
 
 export interface LonghandSettings {
+  llmProvider: LlmProviderId;
   openaiApiKey: string;
-  azureEndpoint: string;
+  llmBaseUrl: string; // OpenAI-compatible only; empty = OpenAI; e.g. http://localhost:11434/v1 for Ollama
+  llmModel: string;
+  llmMaxTokens: number;
+  llmTemperature: number | null; // null = provider default
+  azureOpenaiEndpoint: string;
+  azureOpenaiApiKey: string;
+  azureOpenaiDeployment: string;
+  azureOpenaiApiVersion: string;
+  anthropicApiKey: string;
+  anthropicBaseUrl: string; // empty = https://api.anthropic.com; kept apart so the key never goes to a local server
+  batchMaxImages: number; // images per model call; larger sets are split
+  batchMaxInputTokens: number; // estimated input tokens per model call
+  maxRetries: number; // retries for 429/5xx/network failures, per request
+  requestsPerSecond: number; // pacing per service; 0 = unlimited
+  modelPrices: string; // "model = input, output" per line, USD per 1M tokens
+  ocrPricePer1000: number; // USD per 1000 cloud OCR calls
+  monthlyBudget: number; // USD; 0 = no limit
+  ocrProvider: OcrProviderId;
+  azureEndpoint: string; // shared by both Azure OCR providers
   azureApiKey: string;
+  googleVisionApiKey: string;
+  tesseractLanguages: string; // e.g. "eng" or "eng+deu"
+  tesseractAssetsPath: string; // vault folder with worker/core/traineddata; required, nothing is downloaded
+  language: string; // "auto" or ISO 639-1 codes, primary first ("de, en"); overridable per note
+  preserveMixedLanguages: boolean; // keep each passage in the language it was written in
   convertHeicToJpeg: boolean; // best-effort; will fall back if conversion not supported
   replaceHeicEmbedsInNote: boolean; // rewrite note links to JPEG after converting
   downscaleForLLM: boolean; // OCR always uses original bytes
+  stripImageMetadata: boolean; // remove EXIF/XMP/IPTC (GPS, device, timestamps) before upload
+  detectPages: boolean; // crop and flatten the paper in photos
+  splitSpreads: boolean; // cut two-page spreads into left and right pages
+  savePageCrops: boolean; // keep the cropped pages next to the original
+  imageCleanup: boolean; // canvas preprocessing before OCR and model input
+  cleanupAutoRotate: boolean; // EXIF orientation plus 90/180° detection
+  cleanupDeskew: boolean;
+  cleanupContrast: ContrastMode;
+  cleanupSaveDebugImage: boolean; // save the processed image next to the original
   imageLimit: number; // cap per run
+  rerunMode: RerunMode; // what a re-run does to an existing Longhand block
+  placement: PlacementMode; // where a new Longhand block is inserted
+  placementHeading: string; // heading used by the "heading" placement
+  useTranscriptionCache: boolean; // reuse OCR/model output for unchanged images
+  reviewBeforeInsert: boolean; // show the review modal before writing (single-note command)
+  pickImagesBeforeRun: boolean; // choose and order the images before the single-note command runs
+  failureCallout: boolean; // list images that failed or were skipped in a callout inside the block
+  runHistoryLimit: number; // runs kept for the run history view; 0 = don't record
+  autoProcess: boolean; // transcribe newly attached images automatically
+  autoProcessFolders: string; // comma/newline separated; empty = whole vault
+  autoProcessDelaySeconds: number; // wait for more pages before running
   showStatusBarProgress: boolean;
   showStartFinishNotices: boolean;
   personalContext: string;
+  promptPresets: PromptPreset[]; // built-ins (possibly edited) plus user-defined presets
+  activePreset: string; // preset id used when neither the command nor the note picks one
   autoLinkEntities: boolean; // auto-wikilink entities in transcription
   showFloatingToastProgress: boolean; // mobile-friendly transient messages
   overlayProgressPosition: "off" | "top" | "bottom"; // fixed progress bar position
 }
 
 export const DEFAULT_SETTINGS: LonghandSettings = {
+  llmProvider: "openai",
   openaiApiKey: "",
+  llmBaseUrl: "",
+  llmModel: "gpt-4o",
+  llmMaxTokens: 2048,
+  llmTemperature: null,
+  azureOpenaiEndpoint: "",
+  azureOpenaiApiKey: "",
+  azureOpenaiDeployment: "",
+  azureOpenaiApiVersion: "2024-06-01",
+  anthropicApiKey: "",
+  anthropicBaseUrl: "",
+  batchMaxImages: 4,
+  batchMaxInputTokens: 16000,
+  maxRetries: 3,
+  requestsPerSecond: 0,
+  modelPrices: [
+    "gpt-4o = 2.50, 10.00",
+    "gpt-4o-mini = 0.15, 0.60",
+    "gpt-4.1 = 2.00, 8.00",
+    "claude-3-5-sonnet = 3.00, 15.00",
+  ].join("\n"),
+  ocrPricePer1000: 1.5,
+  monthlyBudget: 0,
+  ocrProvider: "azure-image-analysis",
   azureEndpoint: "",
   azureApiKey: "",
+  googleVisionApiKey: "",
+  tesseractLanguages: "eng",
+  tesseractAssetsPath: "",
+  language: "auto",
+  preserveMixedLanguages: true,
   convertHeicToJpeg: true,
   replaceHeicEmbedsInNote: true,
   downscaleForLLM: false,
+  stripImageMetadata: true,
+  detectPages: false,
+  splitSpreads: true,
+  savePageCrops: false,
+  imageCleanup: false,
+  cleanupAutoRotate: true,
+  cleanupDeskew: true,
+  cleanupContrast: "normalize",
+  cleanupSaveDebugImage: false,
   imageLimit: 10,
+  rerunMode: "replace",
+  placement: "prepend",
+  placementHeading: "Transcription",
+  useTranscriptionCache: true,
+  reviewBeforeInsert: false,
+  pickImagesBeforeRun: false,
+  failureCallout: false,
+  runHistoryLimit: 50,
+  autoProcess: false,
+  autoProcessFolders: "",
+  autoProcessDelaySeconds: 5,
   showStatusBarProgress: true,
   showStartFinishNotices: true,
   personalContext: "",
+  promptPresets: BUILTIN_PRESETS.map((p) => ({ ...p })),
+  activePreset: "default",
   autoLinkEntities: false,
   showFloatingToastProgress: false,
   overlayProgressPosition: "off",
@@ -36,11 +145,19 @@ export class LonghandSettingTab extends PluginSettingTab {
   plugin: Plugin;
   settings: LonghandSettings;
   onSave: (s: LonghandSettings) => Promise<void>;
+  usage: UsageStore;
 
-  constructor(app: App, plugin: Plugin, settings: LonghandSettings, onSave: (s: LonghandSettings) => Promise<void>) {
+  constructor(
+    app: App,
+    plugin: Plugin,
+    settings: LonghandSettings,
+    usage: UsageStore,
+    onSave: (s: LonghandSettings) => Promise<void>
+  ) {
     super(app, plugin);
     this.plugin = plugin;
     this.settings = settings;
+    this.usage = usage;
     this.onSave = onSave;
   }
 
@@ -51,44 +168,369 @@ export class LonghandSettingTab extends PluginSettingTab {
     containerEl.createEl("h2", { text: "Longhand Settings" });
 
     new Setting(containerEl)
-      .setName("OpenAI API Key")
-      .setDesc("Used for GPT-4o vision. Stored locally in your .obsidian plugins data.")
+      .setName("LLM provider")
+      .setDesc("Vision model backend used to produce the transcription.")
+      .addDropdown((dd: any) => {
+        for (const [id, label] of Object.entries(LLM_PROVIDER_LABELS)) dd.addOption(id, label);
+        dd.setValue(this.settings.llmProvider).onChange(async (v: string) => {
+          if (!(v in LLM_PROVIDER_LABELS)) return;
+          const next = v as LlmProviderId;
+          // Swap the model only if the user kept the previous provider's default
+          if (!this.settings.llmModel || this.settings.llmModel === DEFAULT_LLM_MODELS[this.settings.llmProvider]) {
+            this.settings.llmModel = DEFAULT_LLM_MODELS[next];
+          }
+          this.settings.llmProvider = next;
+          await this.onSave(this.settings);
+          this.display();
+        });
+      });
+
+    if (this.settings.llmProvider === "openai") {
+      new Setting(containerEl)
+        .setName("OpenAI API Key")
+        .setDesc("Stored locally in your .obsidian plugins data. Optional for local OpenAI-compatible servers.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("sk-...")
+            .setValue(this.settings.openaiApiKey)
+            .onChange(async (v: string) => {
+              this.settings.openaiApiKey = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.llmProvider === "azure-openai") {
+      new Setting(containerEl)
+        .setName("Azure OpenAI endpoint")
+        .setDesc("Example: https://YOUR-RESOURCE-NAME.openai.azure.com")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("https://...openai.azure.com")
+            .setValue(this.settings.azureOpenaiEndpoint)
+            .onChange(async (v: string) => {
+              this.settings.azureOpenaiEndpoint = v.trim().replace(/\/+$/, "");
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Azure OpenAI key")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("Azure OpenAI key")
+            .setValue(this.settings.azureOpenaiApiKey)
+            .onChange(async (v: string) => {
+              this.settings.azureOpenaiApiKey = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Azure OpenAI deployment")
+        .setDesc("Name of a deployment of a vision-capable model (e.g. gpt-4o).")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("gpt-4o")
+            .setValue(this.settings.azureOpenaiDeployment)
+            .onChange(async (v: string) => {
+              this.settings.azureOpenaiDeployment = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Azure OpenAI API version")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("2024-06-01")
+            .setValue(this.settings.azureOpenaiApiVersion)
+            .onChange(async (v: string) => {
+              this.settings.azureOpenaiApiVersion = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.llmProvider === "anthropic") {
+      new Setting(containerEl)
+        .setName("Anthropic API key")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("sk-ant-...")
+            .setValue(this.settings.anthropicApiKey)
+            .onChange(async (v: string) => {
+              this.settings.anthropicApiKey = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Anthropic base URL")
+        .setDesc("Leave empty for Anthropic's API. Only set this for a proxy you trust: the API key is sent to it.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("https://api.anthropic.com")
+            .setValue(this.settings.anthropicBaseUrl)
+            .onChange(async (v: string) => {
+              this.settings.anthropicBaseUrl = v.trim().replace(/\/+$/, "");
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.llmProvider === "openai") {
+      new Setting(containerEl)
+        .setName("Base URL")
+        .setDesc("Leave empty for OpenAI. For Ollama use http://localhost:11434/v1, for LM Studio http://localhost:1234/v1.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("https://api.openai.com/v1")
+            .setValue(this.settings.llmBaseUrl)
+            .onChange(async (v: string) => {
+              this.settings.llmBaseUrl = v.trim().replace(/\/+$/, "");
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.llmProvider !== "azure-openai") {
+      new Setting(containerEl)
+        .setName("Model")
+        .setDesc("Vision-capable model name, e.g. gpt-4o, llama3.2-vision, claude-3-5-sonnet-latest.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder(DEFAULT_LLM_MODELS[this.settings.llmProvider] || "model")
+            .setValue(this.settings.llmModel)
+            .onChange(async (v: string) => {
+              this.settings.llmModel = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Max output tokens")
+      .setDesc("Upper bound on the length of the model's reply.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("2048")
+          .setValue(String(this.settings.llmMaxTokens))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n <= 0) {
+              new Notice("Max output tokens must be a positive number.");
+              return;
+            }
+            this.settings.llmMaxTokens = Math.floor(n);
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Temperature")
+      .setDesc("Leave empty to use the provider default. Lower values stay closer to the page.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("default")
+          .setValue(this.settings.llmTemperature == null ? "" : String(this.settings.llmTemperature))
+          .onChange(async (v: string) => {
+            if (!v.trim()) {
+              this.settings.llmTemperature = null;
+            } else {
+              const n = Number(v);
+              if (!Number.isFinite(n) || n < 0 || n > 2) {
+                new Notice("Temperature must be a number between 0 and 2.");
+                return;
+              }
+              this.settings.llmTemperature = n;
+            }
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Images per model call")
+      .setDesc("Large image sets are split into several calls of at most this many images. The end of each call's output is passed to the next so text crossing a page break joins up.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("4")
+          .setValue(String(this.settings.batchMaxImages))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n <= 0) {
+              new Notice("Images per model call must be a positive number.");
+              return;
+            }
+            this.settings.batchMaxImages = Math.floor(n);
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Input tokens per model call")
+      .setDesc("Estimated input budget (images + OCR text) per call. A call is closed early when the next image would exceed it.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("16000")
+          .setValue(String(this.settings.batchMaxInputTokens))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n <= 0) {
+              new Notice("Input tokens per model call must be a positive number.");
+              return;
+            }
+            this.settings.batchMaxInputTokens = Math.floor(n);
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Max retries")
+      .setDesc("Retries for rate limits (429), server errors (5xx) and network failures, with exponential backoff. Retry-After is honored. Authentication and bad-request errors are never retried.")
       .addText((t: any) =>
         t
-          .setPlaceholder("sk-...")
-          .setValue(this.settings.openaiApiKey)
+          .setPlaceholder("3")
+          .setValue(String(this.settings.maxRetries))
           .onChange(async (v: string) => {
-            this.settings.openaiApiKey = v.trim();
+            const n = Number(v);
+            if (!Number.isFinite(n) || n < 0) {
+              new Notice("Max retries must be 0 or more.");
+              return;
+            }
+            this.settings.maxRetries = Math.floor(n);
             await this.onSave(this.settings);
           })
       );
 
     new Setting(containerEl)
-      .setName("Azure Computer Vision Endpoint")
-      .setDesc("Example: https://YOUR-RESOURCE-NAME.cognitiveservices.azure.com")
+      .setName("Requests per second")
+      .setDesc("Pace calls to each OCR/LLM service. 0 = no limit. Azure's free tier allows 20 calls per minute, i.e. 0.33.")
       .addText((t: any) =>
         t
-          .setPlaceholder("https://...cognitiveservices.azure.com")
-          .setValue(this.settings.azureEndpoint)
+          .setPlaceholder("0")
+          .setValue(String(this.settings.requestsPerSecond))
           .onChange(async (v: string) => {
-            this.settings.azureEndpoint = v.trim().replace(/\/+$/, "");
+            const n = Number(v);
+            if (!Number.isFinite(n) || n < 0) {
+              new Notice("Requests per second must be 0 or more.");
+              return;
+            }
+            this.settings.requestsPerSecond = n;
             await this.onSave(this.settings);
           })
       );
 
+    this.displayUsage(containerEl);
+
     new Setting(containerEl)
-      .setName("Azure Computer Vision Key")
-      .setDesc("Subscription key for Azure OCR 'read' feature.")
+      .setName("OCR provider")
+      .setDesc("Service used to read text from images. Tesseract runs locally from files in your vault (see \"Tesseract assets folder\") and never uploads images.")
+      .addDropdown((dd: any) => {
+        for (const [id, label] of Object.entries(OCR_PROVIDER_LABELS)) dd.addOption(id, label);
+        dd.setValue(this.settings.ocrProvider).onChange(async (v: string) => {
+          if (v in OCR_PROVIDER_LABELS) {
+            this.settings.ocrProvider = v as OcrProviderId;
+            await this.onSave(this.settings);
+            this.display();
+          }
+        });
+      });
+
+    if (this.settings.ocrProvider === "azure-image-analysis" || this.settings.ocrProvider === "azure-read") {
+      new Setting(containerEl)
+        .setName("Azure Computer Vision Endpoint")
+        .setDesc("Example: https://YOUR-RESOURCE-NAME.cognitiveservices.azure.com")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("https://...cognitiveservices.azure.com")
+            .setValue(this.settings.azureEndpoint)
+            .onChange(async (v: string) => {
+              this.settings.azureEndpoint = v.trim().replace(/\/+$/, "");
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Azure Computer Vision Key")
+        .setDesc("Subscription key for the Azure Computer Vision resource.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("Azure OCR key")
+            .setValue(this.settings.azureApiKey)
+            .onChange(async (v: string) => {
+              this.settings.azureApiKey = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.ocrProvider === "google-vision") {
+      new Setting(containerEl)
+        .setName("Google Cloud Vision API key")
+        .setDesc("API key with the Cloud Vision API enabled.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("AIza...")
+            .setValue(this.settings.googleVisionApiKey)
+            .onChange(async (v: string) => {
+              this.settings.googleVisionApiKey = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    if (this.settings.ocrProvider === "tesseract") {
+      new Setting(containerEl)
+        .setName("Tesseract languages")
+        .setDesc("Tesseract language codes joined with '+', e.g. eng or eng+deu. Used when Language is auto; otherwise the matching models are picked from Language.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("eng")
+            .setValue(this.settings.tesseractLanguages)
+            .onChange(async (v: string) => {
+              this.settings.tesseractLanguages = v.trim();
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Tesseract assets folder")
+        .setDesc("Required. Vault folder containing worker.min.js, the tesseract-core files and <lang>.traineddata.gz. Everything is loaded from here, so OCR needs no network.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("e.g. _longhand/tesseract")
+            .setValue(this.settings.tesseractAssetsPath)
+            .onChange(async (v: string) => {
+              this.settings.tesseractAssetsPath = v.trim().replace(/\/+$/, "");
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Language")
+      .setDesc("Language of your handwriting for OCR and the model: \"auto\" to detect, or ISO codes such as de, or es, en for several (primary first). A note can override it with longhand-language in its frontmatter.")
       .addText((t: any) =>
         t
-          .setPlaceholder("Azure OCR key")
-          .setValue(this.settings.azureApiKey)
+          .setPlaceholder("auto")
+          .setValue(this.settings.language)
           .onChange(async (v: string) => {
-            this.settings.azureApiKey = v.trim();
+            this.settings.language = v.trim() || "auto";
             await this.onSave(this.settings);
           })
       );
 
+    new Setting(containerEl)
+      .setName("Keep mixed-language text as written")
+      .setDesc("When a page mixes languages, transcribe each passage in its own language. When off, the model writes everything in the main language.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.preserveMixedLanguages).onChange(async (v: boolean) => {
+          this.settings.preserveMixedLanguages = v;
+          await this.onSave(this.settings);
+        })
+      );
+
     new Setting(containerEl)
       .setName("Convert HEIC to JPEG")
       .setDesc("Try to convert HEIC images before processing. If conversion fails, images will still be processed when possible.")
@@ -119,6 +561,109 @@ export class LonghandSettingTab extends PluginSettingTab {
         })
       );
 
+    new Setting(containerEl)
+      .setName("Strip image metadata before upload")
+      .setDesc("Remove EXIF/XMP/IPTC (GPS location, device serials, timestamps) before images are sent to OCR or the model. Rotated photos are turned upright first; images whose metadata cannot be removed are skipped. Vault files are not changed.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.stripImageMetadata).onChange(async (v: boolean) => {
+          this.settings.stripImageMetadata = v;
+          await this.onSave(this.settings);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Detect page boundaries")
+      .setDesc("Find the sheet of paper in each photo, crop away the desk and background, and correct the perspective. Vault files are not changed.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.detectPages).onChange(async (v: boolean) => {
+          this.settings.detectPages = v;
+          await this.onSave(this.settings);
+          this.display();
+        })
+      );
+
+    if (this.settings.detectPages) {
+      new Setting(containerEl)
+        .setName("Split two-page spreads")
+        .setDesc("Send an open notebook as separate left and right pages, in that order.")
+        .addToggle((tg: any) =>
+          tg.setValue(this.settings.splitSpreads).onChange(async (v: boolean) => {
+            this.settings.splitSpreads = v;
+            await this.onSave(this.settings);
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Save cropped pages")
+        .setDesc("Save the cropped pages next to the original as \"<name>.page.jpg\" (or .left.jpg and .right.jpg), replaced on each run.")
+        .addToggle((tg: any) =>
+          tg.setValue(this.settings.savePageCrops).onChange(async (v: boolean) => {
+            this.settings.savePageCrops = v;
+            await this.onSave(this.settings);
+          })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Clean up images before OCR")
+      .setDesc("Straighten and enhance page photos before they are sent to OCR and the model. Vault files are not changed.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.imageCleanup).onChange(async (v: boolean) => {
+          this.settings.imageCleanup = v;
+          await this.onSave(this.settings);
+          this.display();
+        })
+      );
+
+    if (this.settings.imageCleanup) {
+      new Setting(containerEl)
+        .setName("Auto-rotate")
+        .setDesc("Apply the photo's EXIF orientation and turn pages that are sideways or upside down (detected from the text lines).")
+        .addToggle((tg: any) =>
+          tg.setValue(this.settings.cleanupAutoRotate).onChange(async (v: boolean) => {
+            this.settings.cleanupAutoRotate = v;
+            await this.onSave(this.settings);
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Deskew")
+        .setDesc("Straighten pages photographed at a slight tilt (up to 8°).")
+        .addToggle((tg: any) =>
+          tg.setValue(this.settings.cleanupDeskew).onChange(async (v: boolean) => {
+            this.settings.cleanupDeskew = v;
+            await this.onSave(this.settings);
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Contrast")
+        .setDesc("Normalize stretches dim photos to full contrast. Black & white thresholds adaptively, which brings out faint pencil but drops color.")
+        .addDropdown((dd: any) =>
+          dd
+            .addOption("off", "Off")
+            .addOption("normalize", "Normalize")
+            .addOption("threshold", "Black & white")
+            .setValue(this.settings.cleanupContrast)
+            .onChange(async (v: string) => {
+              if (v === "off" || v === "normalize" || v === "threshold") {
+                this.settings.cleanupContrast = v;
+                await this.onSave(this.settings);
+              }
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Save processed image (debug)")
+        .setDesc("Save what was sent next to the original as \"<name>.longhand.jpg\" (or .png), replaced on each run.")
+        .addToggle((tg: any) =>
+          tg.setValue(this.settings.cleanupSaveDebugImage).onChange(async (v: boolean) => {
+            this.settings.cleanupSaveDebugImage = v;
+            await this.onSave(this.settings);
+          })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Show status bar progress")
       .setDesc("Show a temporary message in the status bar while processing.")
@@ -186,6 +731,8 @@ export class LonghandSettingTab extends PluginSettingTab {
           })
       );
 
+    this.displayPromptPresets(containerEl);
+
     new Setting(containerEl)
       .setName("Auto-link entities in transcription")
       .setDesc("Automatically wikilink first occurrence of existing note names (and their frontmatter aliases) in the new transcription.")
@@ -198,7 +745,7 @@ export class LonghandSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Image limit")
-      .setDesc("Maximum number of images processed per command.")
+      .setDesc("Maximum number of images processed per command. Large sets are split across several model calls.")
       .addText((t: any) =>
         t
           .setPlaceholder("10")
@@ -213,5 +760,323 @@ export class LonghandSettingTab extends PluginSettingTab {
             await this.onSave(this.settings);
           })
       );
+
+    new Setting(containerEl)
+      .setName("On re-run")
+      .setDesc("Each transcription is wrapped in hidden %% longhand %% markers. Re-running can rewrite that block, or only add text for images that are new or changed since the last run.")
+      .addDropdown((dd: any) =>
+        dd
+          .addOption("replace", "Replace the existing block")
+          .addOption("new-only", "Add only new images")
+          .setValue(this.settings.rerunMode)
+          .onChange(async (v: string) => {
+            if (v === "replace" || v === "new-only") {
+              this.settings.rerunMode = v;
+              await this.onSave(this.settings);
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Insert transcription")
+      .setDesc("Where a new transcription goes. \"Below each image\" puts each page's text directly under its embed (one model call per image).")
+      .addDropdown((dd: any) =>
+        dd
+          .addOption("prepend", "Top of note")
+          .addOption("append", "End of note")
+          .addOption("heading", "Under a heading")
+          .addOption("cursor", "At cursor")
+          .addOption("per-image", "Below each image")
+          .setValue(this.settings.placement)
+          .onChange(async (v: string) => {
+            if (v === "prepend" || v === "append" || v === "heading" || v === "cursor" || v === "per-image") {
+              this.settings.placement = v;
+              await this.onSave(this.settings);
+              this.display();
+            }
+          })
+      );
+
+    if (this.settings.placement === "heading") {
+      new Setting(containerEl)
+        .setName("Heading")
+        .setDesc("Transcription is inserted below this heading; it is created at the end of the note if missing.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("Transcription")
+            .setValue(this.settings.placementHeading)
+            .onChange(async (v: string) => {
+              this.settings.placementHeading = v.trim() || DEFAULT_SETTINGS.placementHeading;
+              await this.onSave(this.settings);
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Choose images before processing")
+      .setDesc("List the note's images with thumbnails before running, to leave some out or change their order (the order they are transcribed and joined in). Applies to the \"Process images in current note\" command; \"Process images in current note (choose images…)\" always asks.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.pickImagesBeforeRun).onChange(async (v: boolean) => {
+          this.settings.pickImagesBeforeRun = v;
+          await this.onSave(this.settings);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Review before inserting")
+      .setDesc("Show each transcription next to its image for editing before it is written. Only accepted text is inserted. Applies to the \"Process images in current note\" command.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.reviewBeforeInsert).onChange(async (v: boolean) => {
+          this.settings.reviewBeforeInsert = v;
+          await this.onSave(this.settings);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Note problem images in the transcription")
+      .setDesc("Add a collapsed \"Longhand\" warning callout to the inserted block listing images that could not be prepared, failed OCR or were not sent to the model. The finish notice always lists them.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.failureCallout).onChange(async (v: boolean) => {
+          this.settings.failureCallout = v;
+          await this.onSave(this.settings);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Run history")
+      .setDesc("Number of recent runs (with their step log) kept for the \"Open run history\" view. 0 turns recording off.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("50")
+          .setValue(String(this.settings.runHistoryLimit))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n < 0) {
+              new Notice("Run history must be 0 or a positive number.");
+              return;
+            }
+            this.settings.runHistoryLimit = Math.floor(n);
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cache results")
+      .setDesc("Remember OCR text and model output per image (by content hash) so re-runs on unchanged images make no network calls. Use the \"Clear transcription cache\" commands to force a fresh run.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.useTranscriptionCache).onChange(async (v: boolean) => {
+          this.settings.useTranscriptionCache = v;
+          await this.onSave(this.settings);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Auto-process new images")
+      .setDesc("When an image is added to the vault and embedded in a note under the folders below, transcribe it automatically. Text is added to the note's Longhand block.")
+      .addToggle((tg: any) =>
+        tg.setValue(this.settings.autoProcess).onChange(async (v: boolean) => {
+          this.settings.autoProcess = v;
+          await this.onSave(this.settings);
+          this.display();
+        })
+      );
+
+    if (this.settings.autoProcess) {
+      new Setting(containerEl)
+        .setName("Auto-process folders")
+        .setDesc("One folder per line (or comma-separated). Only notes inside these folders are watched. Leave empty to watch the whole vault.")
+        .addTextArea((t: any) =>
+          t
+            .setPlaceholder("Journal\nInbox/Scans")
+            .setValue(this.settings.autoProcessFolders)
+            .onChange(async (v: string) => {
+              this.settings.autoProcessFolders = v;
+              await this.onSave(this.settings);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Auto-process delay (seconds)")
+        .setDesc("Wait this long after the last new image before starting, so several pages are processed together.")
+        .addText((t: any) =>
+          t
+            .setPlaceholder("5")
+            .setValue(String(this.settings.autoProcessDelaySeconds))
+            .onChange(async (v: string) => {
+              const n = Number(v);
+              if (!Number.isFinite(n) || n < 1) {
+                new Notice("Delay must be at least 1 second.");
+                return;
+              }
+              this.settings.autoProcessDelaySeconds = n;
+              await this.onSave(this.settings);
+            })
+        );
+    }
+  }
+
+  /**
+   * Prices, monthly budget and the usage history (filled in once it has loaded).
+   */
+  private displayUsage(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Model prices")
+      .setDesc("One \"model = input, output\" per line, in USD per 1M tokens. A name also matches longer model ids (gpt-4o covers gpt-4o-2024-08-06). Used for cost estimates and the budget; models without a price are counted in tokens only.")
+      .addTextArea((t: any) => {
+        t.setValue(this.settings.modelPrices).onChange(async (v: string) => {
+          this.settings.modelPrices = v;
+          await this.onSave(this.settings);
+        });
+        t.inputEl.rows = 5;
+      });
+
+    new Setting(containerEl)
+      .setName("OCR price per 1000 calls")
+      .setDesc("USD per 1000 cloud OCR requests (Azure, Google). Tesseract and cached results are free.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("1.5")
+          .setValue(String(this.settings.ocrPricePer1000))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n < 0) {
+              new Notice("OCR price must be 0 or more.");
+              return;
+            }
+            this.settings.ocrPricePer1000 = n;
+            await this.onSave(this.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Monthly budget (USD)")
+      .setDesc("Stop a run before a request that could take this month's estimated spend over the budget. 0 = no limit.")
+      .addText((t: any) =>
+        t
+          .setPlaceholder("0")
+          .setValue(String(this.settings.monthlyBudget))
+          .onChange(async (v: string) => {
+            const n = Number(v);
+            if (!Number.isFinite(n) || n < 0) {
+              new Notice("Monthly budget must be 0 or more.");
+              return;
+            }
+            this.settings.monthlyBudget = n;
+            await this.onSave(this.settings);
+          })
+      );
+
+    const history = new Setting(containerEl)
+      .setName("Usage")
+      .setDesc("Loading…")
+      .addButton((b: any) =>
+        b
+          .setButtonText("Clear history")
+          .setWarning()
+          .onClick(async () => {
+            await this.usage.clear();
+            new Notice("Longhand: usage history cleared.");
+            this.display();
+          })
+      );
+    void this.usage.months().then((months) => {
+      const desc = history.descEl;
+      desc.empty();
+      if (!months.length) {
+        desc.setText("No runs recorded yet.");
+        return;
+      }
+      for (const m of months.slice(0, 12)) {
+        const cost = `≈ $${m.cost.toFixed(2)}${m.unpriced ? ` + ${m.unpriced} unpriced run(s)` : ""}`;
+        desc.createDiv({
+          text: `${m.month}: ${m.runs} run(s), ${m.images} image(s), ${m.inputTokens.toLocaleString()} in / ${m.outputTokens.toLocaleString()} out tokens, ${m.ocrCalls} OCR call(s), ${cost}`,
+        });
+      }
+    });
+  }
+
+  /**
+   * Preset picker plus editors for the selected preset's templates.
+   */
+  private displayPromptPresets(containerEl: HTMLElement) {
+    const presets = this.settings.promptPresets;
+    const current = presets.find((p) => p.id === this.settings.activePreset) ?? presets[0];
+    const builtin = BUILTIN_PRESETS.find((p) => p.id === current?.id);
+    const update = async (patch: Partial<PromptPreset>) => {
+      this.settings.promptPresets = this.settings.promptPresets.map((p) => (p.id === current.id ? { ...p, ...patch } : p));
+      await this.onSave(this.settings);
+    };
+
+    new Setting(containerEl)
+      .setName("Prompt preset")
+      .setDesc("Preset used by default; the fields below edit it. Pick another for one run with \"Process images in current note with preset…\", or for a note with longhand-preset: <name> in its frontmatter.")
+      .addDropdown((dd: any) => {
+        for (const p of presets) dd.addOption(p.id, p.name);
+        dd.setValue(current?.id ?? "").onChange(async (v: string) => {
+          this.settings.activePreset = v;
+          await this.onSave(this.settings);
+          this.display();
+        });
+      });
+    if (!current) return;
+
+    if (!builtin) {
+      new Setting(containerEl).setName("Preset name").addText((t: any) =>
+        t.setValue(current.name).onChange(async (v: string) => {
+          await update({ name: v.trim() || current.name });
+        })
+      );
+    }
+
+    const vars = TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ");
+    new Setting(containerEl)
+      .setName("System prompt")
+      .setDesc(`Variables: ${vars}. {{#name}}…{{/name}} is kept only when the variable is set.`)
+      .addTextArea((t: any) => {
+        t.setValue(current.system).onChange(async (v: string) => {
+          await update({ system: v });
+        });
+        t.inputEl.rows = 12;
+      });
+
+    new Setting(containerEl)
+      .setName("Instructions")
+      .setDesc("Message sent with the images. {{ocrBundle}} is replaced by each image's name and OCR text.")
+      .addTextArea((t: any) => {
+        t.setValue(current.instructions).onChange(async (v: string) => {
+          await update({ instructions: v });
+        });
+        t.inputEl.rows = 8;
+      });
+
+    const actions = new Setting(containerEl).addButton((b: any) =>
+      b.setButtonText("Duplicate").onClick(async () => {
+        const copy = { ...current, id: `custom-${Date.now()}`, name: `${current.name} (copy)` };
+        this.settings.promptPresets = [...this.settings.promptPresets, copy];
+        this.settings.activePreset = copy.id;
+        await this.onSave(this.settings);
+        this.display();
+      })
+    );
+    if (builtin) {
+      actions.addButton((b: any) =>
+        b.setButtonText("Reset to built-in").onClick(async () => {
+          await update({ ...builtin });
+          this.display();
+        })
+      );
+    } else {
+      actions.addButton((b: any) =>
+        b
+          .setButtonText("Delete")
+          .setWarning()
+          .onClick(async () => {
+            this.settings.promptPresets = this.settings.promptPresets.filter((p) => p.id !== current.id);
+            this.settings.activePreset = "default";
+            await this.onSave(this.settings);
+            this.display();
+          })
+      );
+    }
   }
 }
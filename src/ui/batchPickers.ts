@@ -0,0 +1,84 @@
+import { App, FuzzySuggestModal, getAllTags, TFolder } from "obsidian";
+import type { PromptPreset } from "../services/promptTemplates";
+
+/**
+ * Pick a vault folder (all folders, fuzzy-searchable).
+ */
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+  constructor(
+    app: App,
+    private onPick: (folder: TFolder) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Process images in notes under folder…");
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onPick(folder);
+  }
+}
+
+/**
+ * Pick a tag used anywhere in the vault (frontmatter or inline).
+ */
+export class TagPickerModal extends FuzzySuggestModal<string> {
+  constructor(
+    app: App,
+    private onPick: (tag: string) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Process images in notes tagged…");
+  }
+
+  getItems(): string[] {
+    const tags = new Set<string>();
+    for (const f of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(f);
+      if (!cache) continue;
+      for (const t of getAllTags(cache) ?? []) tags.add(t);
+    }
+    return Array.from(tags).sort();
+  }
+
+  getItemText(tag: string): string {
+    return tag;
+  }
+
+  onChooseItem(tag: string): void {
+    this.onPick(tag);
+  }
+}
+
+/**
+ * Pick one of the configured prompt presets for a single run.
+ */
+export class PresetPickerModal extends FuzzySuggestModal<PromptPreset> {
+  constructor(
+    app: App,
+    private presets: PromptPreset[],
+    private onPick: (preset: PromptPreset) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Transcribe with preset…");
+  }
+
+  getItems(): PromptPreset[] {
+    return this.presets;
+  }
+
+  getItemText(preset: PromptPreset): string {
+    return preset.name;
+  }
+
+  onChooseItem(preset: PromptPreset): void {
+    this.onPick(preset);
+  }
+}
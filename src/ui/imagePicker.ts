@@ -0,0 +1,190 @@
+import { App, ButtonComponent, Modal, TFile } from "obsidian";
+import type { NoteImageRef } from "../services/noteService";
+
+// Formats Obsidian can show directly; HEIC, TIFF and PDF get a placeholder tile
+const PREVIEW_EXT_RE = /^(png|jpe?g|webp|gif|bmp|svg|avif)$/i;
+
+interface PickerRow {
+  ref: NoteImageRef;
+  checked: boolean;
+}
+
+/**
+ * Lets the user choose which of a note's images to process, and in which order, before a run.
+ * - One row per image with a thumbnail and a checkbox; rows are reordered by dragging.
+ * - The first `limit` images start checked, and at most `limit` can be processed.
+ * - "Process" resolves with the checked images in list order; closing the modal resolves null.
+ */
+export class ImagePickerModal extends Modal {
+  private rows: PickerRow[];
+  private resolve?: (result: NoteImageRef[] | null) => void;
+  private submitted = false;
+  private listEl?: HTMLElement;
+  private countEl?: HTMLElement;
+  private processButton?: ButtonComponent;
+  private dragIndex?: number;
+
+  constructor(app: App, refs: NoteImageRef[], private limit: number) {
+    super(app);
+    this.rows = refs.map((ref, i) => ({ ref, checked: i < limit }));
+  }
+
+  openAndWait(): Promise<NoteImageRef[] | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    injectPickerCss();
+    const { contentEl } = this;
+    this.modalEl.addClass("longhand-picker-modal");
+    this.titleEl.setText("Choose images to process");
+    contentEl.createEl("p", {
+      cls: "longhand-picker-hint",
+      text: "Drag to reorder. Images are transcribed, and their text joined, in this order.",
+    });
+    this.listEl = contentEl.createDiv({ cls: "longhand-picker-list" });
+
+    const footer = contentEl.createDiv({ cls: "longhand-picker-footer" });
+    this.countEl = footer.createSpan({ cls: "longhand-picker-count" });
+    new ButtonComponent(footer).setButtonText("Select all").onClick(() => this.checkAll(true));
+    new ButtonComponent(footer).setButtonText("Select none").onClick(() => this.checkAll(false));
+    new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
+    this.processButton = new ButtonComponent(footer)
+      .setButtonText("Process")
+      .setCta()
+      .onClick(() => {
+        this.submitted = true;
+        this.resolve?.(this.rows.filter((r) => r.checked).map((r) => r.ref));
+        this.close();
+      });
+    this.renderList();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.submitted) this.resolve?.(null);
+  }
+
+  private checkAll(checked: boolean) {
+    for (const row of this.rows) row.checked = checked;
+    this.renderList();
+  }
+
+  private renderList() {
+    const list = this.listEl;
+    if (!list) return;
+    list.empty();
+    this.rows.forEach((row, idx) => {
+      const el = list.createDiv({ cls: "longhand-picker-row", attr: { draggable: "true" } });
+      el.toggleClass("is-unchecked", !row.checked);
+      el.createSpan({ cls: "longhand-picker-handle", text: "⋮⋮" });
+      const box = el.createEl("input", { type: "checkbox" });
+      box.checked = row.checked;
+      box.addEventListener("change", () => {
+        row.checked = box.checked;
+        el.toggleClass("is-unchecked", !row.checked);
+        this.refreshCount();
+      });
+      renderThumbnail(this.app, el.createDiv({ cls: "longhand-picker-thumb" }), row.ref.file);
+      const info = el.createDiv({ cls: "longhand-picker-info" });
+      info.createDiv({ text: `${idx + 1}. ${describe(row.ref)}` });
+      info.createDiv({ cls: "longhand-picker-path", text: row.ref.file.path });
+
+      el.addEventListener("dragstart", (e) => {
+        this.dragIndex = idx;
+        e.dataTransfer?.setData("text/plain", String(idx));
+        el.addClass("is-dragging");
+      });
+      el.addEventListener("dragend", () => {
+        this.dragIndex = undefined;
+        el.removeClass("is-dragging");
+      });
+      el.addEventListener("dragover", (e) => {
+        e.preventDefault();
+        el.addClass("is-drop-target");
+      });
+      el.addEventListener("dragleave", () => el.removeClass("is-drop-target"));
+      el.addEventListener("drop", (e) => {
+        e.preventDefault();
+        const from = this.dragIndex;
+        if (from === undefined || from === idx) {
+          el.removeClass("is-drop-target");
+          return;
+        }
+        const [moved] = this.rows.splice(from, 1);
+        this.rows.splice(idx, 0, moved);
+        this.renderList();
+      });
+    });
+    this.refreshCount();
+  }
+
+  private refreshCount() {
+    const count = this.rows.filter((r) => r.checked).length;
+    const over = count > this.limit;
+    this.countEl?.setText(
+      `${count} of ${this.rows.length} selected` + (over ? ` (the image limit is ${this.limit})` : "")
+    );
+    this.countEl?.toggleClass("is-over-limit", over);
+    this.processButton?.setDisabled(count === 0 || over);
+  }
+}
+
+function describe(ref: NoteImageRef): string {
+  const name = ref.pdfPage ? `${ref.file.name}, page ${ref.pdfPage}` : ref.file.name;
+  return ref.alt && ref.alt !== ref.file.name && ref.alt !== ref.file.path ? `${name} (${ref.alt})` : name;
+}
+
+function renderThumbnail(app: App, el: HTMLElement, file: TFile) {
+  if (PREVIEW_EXT_RE.test(file.extension)) {
+    el.createEl("img", { attr: { src: app.vault.getResourcePath(file), alt: file.name, loading: "lazy" } });
+  } else {
+    el.createDiv({ cls: "longhand-picker-placeholder", text: file.extension.toUpperCase() });
+  }
+}
+
+function injectPickerCss() {
+  if (document.getElementById("longhand-picker-styles")) return;
+  const style = document.createElement("style");
+  style.id = "longhand-picker-styles";
+  style.textContent = `
+.longhand-picker-modal { width: min(720px, 95vw); }
+.longhand-picker-hint { color: var(--text-muted); font-size: 13px; margin-top: 0; }
+.longhand-picker-list { display: flex; flex-direction: column; gap: 6px; max-height: 60vh; overflow: auto; margin-bottom: 12px; }
+.longhand-picker-row {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 6px 8px;
+  border: 1px solid var(--background-modifier-border);
+  border-radius: 6px;
+  background: var(--background-primary);
+}
+.longhand-picker-row.is-unchecked { opacity: 0.5; }
+.longhand-picker-row.is-dragging { opacity: 0.3; }
+.longhand-picker-row.is-drop-target { border-color: var(--interactive-accent); }
+.longhand-picker-handle { cursor: grab; color: var(--text-faint); user-select: none; }
+.longhand-picker-thumb { width: 72px; height: 72px; flex: none; display: flex; align-items: center; justify-content: center; }
+.longhand-picker-thumb img { max-width: 100%; max-height: 100%; border-radius: 4px; object-fit: contain; }
+.longhand-picker-placeholder {
+  width: 100%;
+  height: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  border-radius: 4px;
+  background: var(--background-secondary);
+  color: var(--text-muted);
+  font-size: 12px;
+}
+.longhand-picker-info { flex: 1; min-width: 0; }
+.longhand-picker-path { font-size: 12px; color: var(--text-muted); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.longhand-picker-footer { display: flex; gap: 8px; justify-content: flex-end; align-items: center; }
+.longhand-picker-count { margin-right: auto; font-size: 12px; color: var(--text-muted); }
+.longhand-picker-count.is-over-limit { color: var(--text-error); }
+`;
+  document.head.appendChild(style);
+}
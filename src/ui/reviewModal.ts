@@ -0,0 +1,172 @@
+import { App, ButtonComponent, Modal, Notice, TextAreaComponent } from "obsidian";
+
+export interface ReviewSegment {
+  title: string; // e.g. "Image 2: page2.jpg, Image 3: page3.jpg"
+  images: { name: string; src: string }[];
+  ocrText: string;
+  text: string;
+}
+
+export interface ReviewDecision {
+  index: number; // position in the segments passed to the modal
+  text: string; // possibly edited by the user
+}
+
+type SegmentState = "pending" | "accepted" | "discarded";
+
+/**
+ * Shows each transcribed segment next to its source image(s) before anything is written.
+ * - The transcription is editable; the raw OCR text is available for comparison.
+ * - Accept / Discard mark a segment; "Re-run" asks the model again with extra instructions.
+ * - "Insert accepted" resolves with the accepted segments; closing the modal resolves null.
+ */
+export class ReviewModal extends Modal {
+  private states: SegmentState[];
+  private texts: string[];
+  private resolve?: (result: ReviewDecision[] | null) => void;
+  private submitted = false;
+  private insertButton?: ButtonComponent;
+
+  constructor(
+    app: App,
+    private segments: ReviewSegment[],
+    private rerun: (index: number, instructions: string) => Promise<string>
+  ) {
+    super(app);
+    this.states = segments.map(() => "pending");
+    this.texts = segments.map((s) => s.text);
+  }
+
+  openAndWait(): Promise<ReviewDecision[] | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    injectReviewCss();
+    const { contentEl } = this;
+    this.modalEl.addClass("longhand-review-modal");
+    this.titleEl.setText("Review transcription");
+
+    this.segments.forEach((seg, idx) => this.renderSegment(contentEl.createDiv({ cls: "longhand-review-segment" }), seg, idx));
+
+    const footer = contentEl.createDiv({ cls: "longhand-review-footer" });
+    new ButtonComponent(footer).setButtonText("Accept all").onClick(() => {
+      this.states = this.states.map((s) => (s === "discarded" ? s : "accepted"));
+      this.refresh();
+    });
+    new ButtonComponent(footer).setButtonText("Cancel").onClick(() => this.close());
+    this.insertButton = new ButtonComponent(footer)
+      .setButtonText("Insert accepted")
+      .setCta()
+      .onClick(() => {
+        this.submitted = true;
+        this.resolve?.(
+          this.states
+            .map((state, index) => ({ state, index, text: this.texts[index] }))
+            .filter((d) => d.state === "accepted" && d.text.trim())
+            .map(({ index, text }) => ({ index, text }))
+        );
+        this.close();
+      });
+    this.refresh();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.submitted) this.resolve?.(null);
+  }
+
+  private renderSegment(el: HTMLElement, seg: ReviewSegment, idx: number) {
+    el.dataset.index = String(idx);
+    el.createEl("h4", { text: seg.title });
+
+    const row = el.createDiv({ cls: "longhand-review-row" });
+    const imgCol = row.createDiv({ cls: "longhand-review-images" });
+    for (const img of seg.images) {
+      imgCol.createEl("img", { attr: { src: img.src, alt: img.name, title: img.name } });
+    }
+
+    const textCol = row.createDiv({ cls: "longhand-review-text" });
+    const area = new TextAreaComponent(textCol).setValue(this.texts[idx]).onChange((v) => {
+      this.texts[idx] = v;
+    });
+    area.inputEl.rows = 14;
+
+    const details = textCol.createEl("details");
+    details.createEl("summary", { text: "Raw OCR text" });
+    details.createEl("pre", { text: seg.ocrText.trim() || "(no OCR text)" });
+
+    const actions = el.createDiv({ cls: "longhand-review-actions" });
+    actions.createSpan({ cls: "longhand-review-status", attr: { "data-role": "status" } });
+    new ButtonComponent(actions).setButtonText("Accept").onClick(() => {
+      this.states[idx] = "accepted";
+      this.refresh();
+    });
+    new ButtonComponent(actions).setButtonText("Discard").onClick(() => {
+      this.states[idx] = "discarded";
+      this.refresh();
+    });
+
+    const instructions = new TextAreaComponent(actions).setPlaceholder("Extra instructions for a re-run (optional)");
+    instructions.inputEl.rows = 1;
+    const rerunButton = new ButtonComponent(actions).setButtonText("Re-run");
+    rerunButton.onClick(async () => {
+      rerunButton.setDisabled(true).setButtonText("Re-running…");
+      try {
+        const text = await this.rerun(idx, instructions.getValue().trim());
+        this.texts[idx] = text;
+        area.setValue(text);
+        this.states[idx] = "pending";
+        this.refresh();
+      } catch (e) {
+        console.error(e);
+        new Notice("Longhand: re-run failed.");
+      } finally {
+        rerunButton.setDisabled(false).setButtonText("Re-run");
+      }
+    });
+  }
+
+  private refresh() {
+    this.contentEl.querySelectorAll<HTMLElement>(".longhand-review-segment").forEach((el) => {
+      const idx = Number(el.dataset.index);
+      const state = this.states[idx];
+      el.toggleClass("is-accepted", state === "accepted");
+      el.toggleClass("is-discarded", state === "discarded");
+      const status = el.querySelector<HTMLElement>("[data-role=status]");
+      if (status) status.setText(state === "accepted" ? "Accepted" : state === "discarded" ? "Discarded" : "Not reviewed");
+    });
+    this.insertButton?.setDisabled(!this.states.includes("accepted"));
+  }
+}
+
+function injectReviewCss() {
+  if (document.getElementById("longhand-review-styles")) return;
+  const style = document.createElement("style");
+  style.id = "longhand-review-styles";
+  style.textContent = `
+.longhand-review-modal { width: min(1100px, 95vw); }
+.longhand-review-segment {
+  border: 1px solid var(--background-modifier-border);
+  border-radius: 6px;
+  padding: 8px 12px;
+  margin-bottom: 12px;
+}
+.longhand-review-segment.is-accepted { border-color: #27ae60; }
+.longhand-review-segment.is-discarded { opacity: 0.5; }
+.longhand-review-row { display: flex; gap: 12px; align-items: flex-start; }
+.longhand-review-images { flex: 1; display: flex; flex-direction: column; gap: 6px; max-height: 420px; overflow: auto; }
+.longhand-review-images img { width: 100%; border-radius: 4px; }
+.longhand-review-text { flex: 1; display: flex; flex-direction: column; gap: 6px; }
+.longhand-review-text textarea { width: 100%; font-family: var(--font-monospace); }
+.longhand-review-text pre { white-space: pre-wrap; font-size: 12px; max-height: 200px; overflow: auto; }
+.longhand-review-actions { display: flex; gap: 6px; align-items: center; margin-top: 8px; flex-wrap: wrap; }
+.longhand-review-actions textarea { flex: 1; min-width: 200px; }
+.longhand-review-status { font-size: 12px; color: var(--text-muted); margin-right: auto; }
+.longhand-review-footer { display: flex; gap: 8px; justify-content: flex-end; }
+`;
+  document.head.appendChild(style);
+}
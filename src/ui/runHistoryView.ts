@@ -0,0 +1,140 @@
+import { ButtonComponent, ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import { formatRunLog, RunHistoryStore, RunRecord } from "../services/runHistory";
+import { describeReport, needsAttention } from "../services/runReport";
+
+export const RUN_HISTORY_VIEW_TYPE = "longhand-run-history";
+
+export interface RunHistoryActions {
+  openNote(run: RunRecord): void;
+  rerun(run: RunRecord): void;
+}
+
+const STATUS_TEXT: Record<RunRecord["status"], string> = { ok: "Done", failed: "Failed", cancelled: "Cancelled" };
+
+/**
+ * Sidebar list of recent runs, newest first. Each run expands to its images, per-image
+ * status and step log, with actions to open the note, copy the log or re-run the same images.
+ */
+export class RunHistoryView extends ItemView {
+  constructor(
+    leaf: WorkspaceLeaf,
+    private store: RunHistoryStore,
+    private actions: RunHistoryActions
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return RUN_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Longhand run history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen() {
+    injectHistoryCss();
+    this.registerEvent(this.store.on("changed", () => void this.render()));
+    await this.render();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  private async render() {
+    const runs = await this.store.runs();
+    const el = this.contentEl;
+    el.empty();
+    el.addClass("longhand-history");
+
+    const header = el.createDiv({ cls: "longhand-history-header" });
+    header.createSpan({ text: runs.length ? `${runs.length} recent run(s)` : "No runs yet." });
+    if (runs.length) {
+      new ButtonComponent(header).setButtonText("Clear").onClick(async () => {
+        await this.store.clear();
+      });
+    }
+
+    for (const run of runs) this.renderRun(el.createEl("details", { cls: "longhand-history-run" }), run);
+  }
+
+  private renderRun(el: HTMLElement, run: RunRecord) {
+    el.addClass(`is-${run.status}`);
+    const summary = el.createEl("summary");
+    summary.createSpan({ cls: "longhand-history-status", text: STATUS_TEXT[run.status] });
+    summary.createSpan({ cls: "longhand-history-note", text: noteName(run.note) });
+    summary.createSpan({
+      cls: "longhand-history-meta",
+      text: `${new Date(run.started).toLocaleString()} · ${(run.duration / 1000).toFixed(1)}s`,
+    });
+
+    el.createDiv({ cls: "longhand-history-message", text: run.message });
+    const facts = el.createEl("ul", { cls: "longhand-history-facts" });
+    facts.createEl("li", { text: `Model: ${run.model || "(none)"}` });
+    facts.createEl("li", { text: `OCR: ${run.ocr || "(none)"}` });
+    if (run.cost) facts.createEl("li", { text: `Cost: ≈ $${run.cost.toFixed(3)}` });
+    facts.createEl("li", { text: `Images: ${run.images.join(", ") || "(none)"}` });
+    for (const r of needsAttention(run.reports)) {
+      facts.createEl("li", { cls: "longhand-history-issue", text: describeReport(r) });
+    }
+
+    const log = el.createEl("details", { cls: "longhand-history-log" });
+    log.createEl("summary", { text: `Log (${run.log.length})` });
+    log.createEl("pre", {
+      text: run.log
+        .map((e) => `+${((e.time - run.started) / 1000).toFixed(1)}s ${e.kind === "info" ? "" : `${e.kind}: `}${e.message}`)
+        .join("\n"),
+    });
+
+    const actions = el.createDiv({ cls: "longhand-history-actions" });
+    new ButtonComponent(actions).setButtonText("Open note").onClick(() => this.actions.openNote(run));
+    new ButtonComponent(actions).setButtonText("Copy log").onClick(async () => {
+      try {
+        await navigator.clipboard.writeText(formatRunLog(run));
+        new Notice("Longhand: run log copied.");
+      } catch (e) {
+        console.error(e);
+        new Notice("Longhand: could not copy the log.");
+      }
+    });
+    new ButtonComponent(actions).setButtonText("Re-run").onClick(() => this.actions.rerun(run));
+  }
+}
+
+function noteName(path: string): string {
+  return path.split("/").pop()?.replace(/\.md$/, "") ?? path;
+}
+
+function injectHistoryCss() {
+  if (document.getElementById("longhand-history-styles")) return;
+  const style = document.createElement("style");
+  style.id = "longhand-history-styles";
+  style.textContent = `
+.longhand-history-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px; color: var(--text-muted); }
+.longhand-history-run {
+  border: 1px solid var(--background-modifier-border);
+  border-left-width: 3px;
+  border-radius: 4px;
+  padding: 4px 8px;
+  margin-bottom: 6px;
+}
+.longhand-history-run.is-ok { border-left-color: #27ae60; }
+.longhand-history-run.is-failed { border-left-color: var(--text-error); }
+.longhand-history-run.is-cancelled { border-left-color: var(--text-faint); }
+.longhand-history-run > summary { cursor: pointer; display: flex; flex-wrap: wrap; gap: 4px 8px; align-items: baseline; }
+.longhand-history-status { font-size: 11px; text-transform: uppercase; color: var(--text-muted); }
+.longhand-history-note { font-weight: 600; }
+.longhand-history-meta { font-size: 11px; color: var(--text-faint); width: 100%; }
+.longhand-history-message { margin: 6px 0; font-size: 13px; }
+.longhand-history-facts { margin: 0 0 6px; padding-left: 18px; font-size: 12px; color: var(--text-muted); word-break: break-word; }
+.longhand-history-issue { color: var(--text-warning); }
+.longhand-history-log pre { white-space: pre-wrap; font-size: 11px; max-height: 240px; overflow: auto; }
+.longhand-history-actions { display: flex; gap: 6px; flex-wrap: wrap; margin: 6px 0 2px; }
+`;
+  document.head.appendChild(style);
+}